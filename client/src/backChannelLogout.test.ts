@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  BACK_CHANNEL_LOGOUT_EVENT,
+  MemoryJtiStore,
+  validateLogoutTokenClaims,
+} from "./backChannelLogout";
+import { ProtocolError } from "./errors";
+
+describe("validateLogoutTokenClaims", () => {
+  const now = 1700000000;
+  const expected = {
+    issuer: "https://auth.example.com",
+    clientId: "test-client-id",
+    clockSkew: 60,
+    maxAge: 300,
+    now,
+  };
+  const claims = {
+    iss: "https://auth.example.com",
+    aud: "test-client-id",
+    iat: now,
+    jti: "logout-jti",
+    sub: "user123",
+    sid: "session-1",
+    events: { [BACK_CHANNEL_LOGOUT_EVENT]: {} },
+  };
+
+  it("有効なログアウトトークンのクレームを返す", () => {
+    expect(validateLogoutTokenClaims(claims, expected)).toEqual(claims);
+  });
+
+  it.each([
+    ["subのみ", { sid: undefined }],
+    ["sidのみ", { sub: undefined }],
+  ])("%sを含むログアウトトークンを受け付ける", (_, override) => {
+    expect(() =>
+      validateLogoutTokenClaims({ ...claims, ...override }, expected),
+    ).not.toThrow();
+  });
+
+  it.each<[string, Record<string, unknown>, string]>([
+    [
+      "jtiがない",
+      { jti: undefined },
+      "Logout token must contain iss, aud, iat and jti",
+    ],
+    [
+      "発行者が異なる",
+      { iss: "https://evil.example.com" },
+      "Logout token issuer mismatch: expected https://auth.example.com, got https://evil.example.com",
+    ],
+    [
+      "対象者にクライアントを含まない",
+      { aud: ["other-client"] },
+      "Logout token audience does not include the client",
+    ],
+    [
+      "発行日時が未来",
+      { iat: now + 120 },
+      "Logout token is issued in the future",
+    ],
+    ["発行日時が古すぎる", { iat: now - 400 }, "Logout token is too old"],
+    ["有効期限が切れている", { exp: now - 120 }, "Logout token has expired"],
+    [
+      "eventsにバックチャネルログアウトのイベントがない",
+      { events: { "https://example.com/other-event": {} } },
+      "Logout token events does not contain the back-channel logout event",
+    ],
+    [
+      "nonceを含む",
+      { nonce: "test-nonce" },
+      "Logout token must not contain nonce",
+    ],
+    [
+      "subもsidもない",
+      { sub: undefined, sid: undefined },
+      "Logout token must contain sub or sid",
+    ],
+  ])("%s場合は拒否する", (_, override, message) => {
+    const payload = { ...claims, ...override };
+    for (const [name, value] of Object.entries(override)) {
+      if (value === undefined) {
+        delete payload[name as keyof typeof payload];
+      }
+    }
+
+    expect(() => validateLogoutTokenClaims(payload, expected)).toThrow(
+      new ProtocolError(message),
+    );
+  });
+});
+
+describe("MemoryJtiStore", () => {
+  it("同じjtiは一度だけ受け付ける", async () => {
+    const store = new MemoryJtiStore();
+    const expiresAt = Math.floor(Date.now() / 1000) + 300;
+
+    expect(await store.use("jti-1", expiresAt)).toBe(true);
+    expect(await store.use("jti-1", expiresAt)).toBe(false);
+    expect(await store.use("jti-2", expiresAt)).toBe(true);
+  });
+
+  it("releaseしたjtiは再び受け付ける", async () => {
+    const store = new MemoryJtiStore();
+    const expiresAt = Math.floor(Date.now() / 1000) + 300;
+
+    await store.use("jti-1", expiresAt);
+    await store.release("jti-1");
+
+    expect(await store.use("jti-1", expiresAt)).toBe(true);
+  });
+
+  it("期限が過ぎたjtiは削除する", async () => {
+    const store = new MemoryJtiStore();
+    const now = Math.floor(Date.now() / 1000);
+
+    await store.use("jti-1", now - 1);
+
+    expect(await store.use("jti-1", now + 300)).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * OpenID Connect Back-Channel Logout 1.0 のログアウトトークンの検証
+ */
+import { ProtocolError } from "./errors";
+
+// ログアウトトークンの events に含まれるイベント
+export const BACK_CHANNEL_LOGOUT_EVENT =
+  "http://schemas.openid.net/event/backchannel-logout";
+
+// ログアウトトークンのクレーム（Back-Channel Logout 1.0 2.4）
+export interface LogoutTokenClaims {
+  iss: string;
+  aud: string | string[];
+  iat: number;
+  exp?: number;
+  jti: string;
+  events: Record<string, unknown>;
+  sub?: string; // sub と sid の少なくとも一方を含む
+  sid?: string; // ログアウトするセッションの識別子
+  [key: string]: unknown;
+}
+
+// RP の設定に由来する検証条件
+export interface LogoutTokenExpectation {
+  issuer: string;
+  clientId: string;
+  clockSkew: number; // 許容する時刻のずれ（秒）
+  maxAge: number; // iat から受け付ける期間（秒）
+  now?: number; // 現在時刻（秒、テスト用）
+}
+
+/**
+ * 使用済みの jti の保存先（ログアウトトークンの再送の検出に使用する）
+ * use は同じ jti に対して一度だけ true を返し、release した jti は再び使用できる
+ */
+export interface JtiStore {
+  use(jti: string, expiresAt: number): Promise<boolean>;
+  release(jti: string): Promise<void>;
+}
+
+/**
+ * メモリ上に使用済みの jti を保存するストア
+ * 単一プロセスでの利用を想定しています
+ */
+export class MemoryJtiStore implements JtiStore {
+  private readonly used = new Map<string, number>(); // jti と保持する期限（秒）
+
+  public async use(jti: string, expiresAt: number): Promise<boolean> {
+    this.purgeExpired();
+    if (this.used.has(jti)) {
+      return false;
+    }
+    this.used.set(jti, expiresAt);
+    return true;
+  }
+
+  public async release(jti: string): Promise<void> {
+    this.used.delete(jti);
+  }
+
+  /**
+   * 期限切れの jti を削除する
+   */
+  private purgeExpired(): void {
+    const now = Math.floor(Date.now() / 1000);
+    for (const [jti, expiresAt] of this.used) {
+      if (expiresAt <= now) {
+        this.used.delete(jti);
+      }
+    }
+  }
+}
+
+/**
+ * 署名検証済みのログアウトトークンのクレームを検証する（Back-Channel Logout 1.0 2.6）
+ * @param payload ログアウトトークンのペイロード
+ * @param expected 検証条件
+ * @returns ログアウトトークンのクレーム
+ * @throws ProtocolError 検証に失敗した場合
+ */
+export function validateLogoutTokenClaims(
+  payload: Record<string, unknown>,
+  expected: LogoutTokenExpectation,
+): LogoutTokenClaims {
+  const now = expected.now ?? Math.floor(Date.now() / 1000);
+  const skew = expected.clockSkew;
+
+  if (
+    typeof payload.iss !== "string" ||
+    (typeof payload.aud !== "string" && !Array.isArray(payload.aud)) ||
+    typeof payload.iat !== "number" ||
+    typeof payload.jti !== "string"
+  ) {
+    throw new ProtocolError("Logout token must contain iss, aud, iat and jti");
+  }
+
+  if (payload.iss !== expected.issuer) {
+    throw new ProtocolError(
+      `Logout token issuer mismatch: expected ${expected.issuer}, got ${payload.iss}`,
+    );
+  }
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(expected.clientId)) {
+    throw new ProtocolError(
+      "Logout token audience does not include the client",
+    );
+  }
+
+  // 有効期限・発行日時の検証
+  if (payload.iat - skew > now) {
+    throw new ProtocolError("Logout token is issued in the future");
+  }
+  if (payload.iat + expected.maxAge + skew <= now) {
+    throw new ProtocolError("Logout token is too old");
+  }
+  if (typeof payload.exp === "number" && payload.exp + skew <= now) {
+    throw new ProtocolError("Logout token has expired");
+  }
+
+  // events にバックチャネルログアウトのイベントを含むこと
+  const events = payload.events;
+  if (
+    typeof events !== "object" ||
+    events === null ||
+    Array.isArray(events) ||
+    !(BACK_CHANNEL_LOGOUT_EVENT in events)
+  ) {
+    throw new ProtocolError(
+      "Logout token events does not contain the back-channel logout event",
+    );
+  }
+
+  // IDトークンの誤用を防ぐため nonce を含んではならない
+  if (payload.nonce !== undefined) {
+    throw new ProtocolError("Logout token must not contain nonce");
+  }
+
+  // sub と sid の少なくとも一方を含むこと
+  if (typeof payload.sub !== "string" && typeof payload.sid !== "string") {
+    throw new ProtocolError("Logout token must contain sub or sid");
+  }
+
+  return payload as LogoutTokenClaims;
+}
@@ -0,0 +1,276 @@
+import {
+  type CryptoKey,
+  type JWK,
+  SignJWT,
+  exportJWK,
+  generateKeyPair,
+} from "jose";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { resolveClaimSources } from "./claimSources";
+import { ClaimSourceError, ProtocolError } from "./errors";
+import { JWKSCache } from "./jwks";
+
+// モックの設定
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe("resolveClaimSources", () => {
+  const claimsIssuer = "https://claims.example.com";
+  const trustedIssuers = [claimsIssuer];
+
+  // クレームプロバイダーの署名鍵
+  let privateKey: CryptoKey;
+  let publicJwk: JWK;
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair("RS256");
+    privateKey = keyPair.privateKey;
+    publicJwk = { ...(await exportJWK(keyPair.publicKey)), kid: "claims-key" };
+  });
+
+  const createClaimsJwt = (claims: Record<string, unknown>) =>
+    new SignJWT({ iss: claimsIssuer, ...claims })
+      .setProtectedHeader({ alg: "RS256", kid: "claims-key" })
+      .sign(privateKey);
+
+  // 発行者の JWK Set（JWKS エンドポイントのモックから取得する）
+  const getKeySet = vi.fn(
+    async (issuer: string) => new JWKSCache(`${issuer}/jwks`),
+  );
+  const mockJwksResponse = () => {
+    mockFetch.mockResolvedValueOnce(Response.json({ keys: [publicJwk] }));
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    getKeySet.mockClear();
+  });
+
+  it("_claim_namesがない場合はそのまま返す", async () => {
+    const claims = { sub: "user123", name: "Test User" };
+
+    expect(
+      await resolveClaimSources(claims, { getKeySet, trustedIssuers }),
+    ).toBe(claims);
+  });
+
+  it("集約クレームのJWTを検証して統合する", async () => {
+    mockJwksResponse();
+    const claims = {
+      sub: "user123",
+      _claim_names: { address: "src1", phone_number: "src1" },
+      _claim_sources: {
+        src1: {
+          JWT: await createClaimsJwt({
+            address: { country: "JP" },
+            phone_number: "+81-3-0000-0000",
+            email: "ignored@example.com",
+          }),
+        },
+      },
+    };
+
+    const result = await resolveClaimSources(claims, {
+      getKeySet,
+      trustedIssuers,
+    });
+
+    expect(result).toEqual({
+      sub: "user123",
+      address: { country: "JP" },
+      phone_number: "+81-3-0000-0000",
+    });
+    expect(getKeySet).toHaveBeenCalledWith(claimsIssuer);
+  });
+
+  it("分散クレームをソースのアクセストークンで取得する", async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response(await createClaimsJwt({ groups: ["admin", "staff"] }), {
+        headers: { "Content-Type": "application/jwt" },
+      }),
+    );
+    mockJwksResponse();
+    const claims = {
+      sub: "user123",
+      _claim_names: { groups: "src1" },
+      _claim_sources: {
+        src1: {
+          endpoint: "https://claims.example.com/groups",
+          access_token: "claims-access-token",
+        },
+      },
+    };
+
+    const result = await resolveClaimSources(claims, {
+      getKeySet,
+      trustedIssuers,
+    });
+
+    expect(result).toEqual({ sub: "user123", groups: ["admin", "staff"] });
+    expect(mockFetch).toHaveBeenNthCalledWith(
+      1,
+      "https://claims.example.com/groups",
+      {
+        headers: {
+          Accept: "application/jwt",
+          Authorization: "Bearer claims-access-token",
+        },
+      },
+    );
+  });
+
+  it("JSONで返された分散クレームはClaimSourceErrorをスローする", async () => {
+    mockFetch.mockResolvedValueOnce(Response.json({ groups: ["admin"] }));
+
+    const error = await resolveClaimSources(
+      {
+        sub: "user123",
+        _claim_names: { groups: "src1" },
+        _claim_sources: { src1: { endpoint: "https://evil.example.com" } },
+      },
+      { getKeySet, trustedIssuers },
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ClaimSourceError);
+    expect(error.message).toBe(
+      'Claim source "src1" failed: Claims response is not a JWT: application/json',
+    );
+    expect(getKeySet).not.toHaveBeenCalled();
+  });
+
+  it("分散クレームのリクエストが失敗した場合はClaimSourceErrorをスローする", async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response(null, { status: 401, statusText: "Unauthorized" }),
+    );
+
+    const error = await resolveClaimSources(
+      {
+        sub: "user123",
+        _claim_names: { groups: "src1" },
+        _claim_sources: { src1: { endpoint: "https://claims.example.com" } },
+      },
+      { getKeySet, trustedIssuers },
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ClaimSourceError);
+    expect(error.source).toBe("src1");
+    expect(error.message).toBe(
+      'Claim source "src1" failed: Claims request failed: Unauthorized',
+    );
+  });
+
+  it("集約クレームの署名が不正な場合はClaimSourceErrorをスローする", async () => {
+    mockJwksResponse();
+    const otherKey = (await generateKeyPair("RS256")).privateKey;
+    const jwt = await new SignJWT({ iss: claimsIssuer, groups: [] })
+      .setProtectedHeader({ alg: "RS256", kid: "claims-key" })
+      .sign(otherKey);
+
+    const error = await resolveClaimSources(
+      {
+        sub: "user123",
+        _claim_names: { groups: "src1" },
+        _claim_sources: { src1: { JWT: jwt } },
+      },
+      { getKeySet, trustedIssuers },
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ClaimSourceError);
+    expect(error.message).toMatch(
+      /^Claim source "src1" failed: Claims JWT verification failed: /,
+    );
+  });
+
+  it("信頼しない発行者のJWTはJWK Setを取得せずにClaimSourceErrorをスローする", async () => {
+    const jwt = await new SignJWT({
+      iss: "https://evil.example.com",
+      groups: [],
+    })
+      .setProtectedHeader({ alg: "RS256", kid: "claims-key" })
+      .sign(privateKey);
+
+    const error = await resolveClaimSources(
+      {
+        sub: "user123",
+        _claim_names: { groups: "src1" },
+        _claim_sources: { src1: { JWT: jwt } },
+      },
+      { getKeySet, trustedIssuers },
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ClaimSourceError);
+    expect(error.message).toBe(
+      'Claim source "src1" failed: Claims JWT verification failed: Claims JWT issuer is not trusted: https://evil.example.com',
+    );
+    expect(getKeySet).not.toHaveBeenCalled();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it.each<[string, Record<string, unknown>, string]>([
+    [
+      "ソースが定義されていない",
+      { _claim_names: { groups: "src1" }, _claim_sources: {} },
+      'Claim source "src1" failed: Source is not defined',
+    ],
+    [
+      "ソースにJWTもendpointもない",
+      { _claim_names: { groups: "src1" }, _claim_sources: { src1: {} } },
+      'Claim source "src1" failed: Source has neither JWT nor endpoint',
+    ],
+  ])("%s場合はClaimSourceErrorをスローする", async (_, claims, message) => {
+    const error = await resolveClaimSources(
+      { sub: "user123", ...claims },
+      { getKeySet, trustedIssuers },
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ClaimSourceError);
+    expect(error.message).toBe(message);
+  });
+
+  it("ソースに指定されたクレームが含まれない場合はClaimSourceErrorをスローする", async () => {
+    mockJwksResponse();
+
+    const error = await resolveClaimSources(
+      {
+        sub: "user123",
+        _claim_names: { groups: "src1" },
+        _claim_sources: { src1: { JWT: await createClaimsJwt({}) } },
+      },
+      { getKeySet, trustedIssuers },
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ClaimSourceError);
+    expect(error.message).toBe(
+      'Claim source "src1" failed: Source does not contain groups',
+    );
+  });
+
+  it.each(["sub", "iss", "aud"])(
+    "_claim_namesに%sを含む場合はソースを取得せずにProtocolErrorをスローする",
+    async (name) => {
+      const error = await resolveClaimSources(
+        {
+          sub: "user123",
+          _claim_names: { [name]: "src1" },
+          _claim_sources: {
+            src1: { JWT: await createClaimsJwt({ [name]: "attacker" }) },
+          },
+        },
+        { getKeySet, trustedIssuers },
+      ).catch((e) => e);
+
+      expect(error).toBeInstanceOf(ProtocolError);
+      expect(error.message).toBe(`_claim_names must not contain ${name}`);
+      expect(mockFetch).not.toHaveBeenCalled();
+    },
+  );
+
+  it("_claim_sourcesがない場合はProtocolErrorをスローする", async () => {
+    await expect(
+      resolveClaimSources(
+        { sub: "user123", _claim_names: { groups: "src1" } },
+        { getKeySet, trustedIssuers },
+      ),
+    ).rejects.toThrow(ProtocolError);
+  });
+});
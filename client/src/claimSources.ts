@@ -0,0 +1,205 @@
+/**
+ * 集約クレーム・分散クレームの解決（OpenID Connect Core 1.0 5.6.2）
+ */
+import { decodeJwt } from "jose";
+import { ClaimSourceError, ProtocolError } from "./errors";
+import { type HttpOptions, sendRequest, toResponseError } from "./http";
+import { type JWKSCache, verifyJws } from "./jwks";
+
+// クレームのソース（JWT: 集約クレーム、endpoint: 分散クレーム）
+export interface ClaimSource {
+  JWT?: string;
+  endpoint?: string;
+  access_token?: string; // 分散クレームのエンドポイントで使用するアクセストークン
+}
+
+// ソースから取得できないクレーム（利用者の識別と発行者・対象者の確認に使用するため）
+const PROTECTED_CLAIMS = ["sub", "iss", "aud"];
+
+export interface ClaimSourceResolverOptions {
+  // JWT の発行者の JWK Set を取得する
+  getKeySet: (issuer: string) => Promise<JWKSCache>;
+  // JWT の発行者として受け付ける値（それ以外の発行者の JWT は JWK Set を取得せずに拒否する）
+  trustedIssuers: string[];
+  // 許可する署名アルゴリズム
+  algorithms?: string[];
+  // HTTP リクエストの設定
+  http?: HttpOptions;
+}
+
+/**
+ * _claim_names と _claim_sources が示すクレームを取得し、クレームに統合する
+ * 集約クレームの JWT と、分散クレームのエンドポイントが返した JWT は発行者の JWK Set で署名を検証する
+ * JWT の発行者は trustedIssuers に含まれるものに限る
+ * @param claims UserInfo などのクレーム
+ * @param options 解決の設定
+ * @returns 取得したクレームを統合したクレーム（_claim_names と _claim_sources は除く）
+ * @throws ProtocolError _claim_names・_claim_sources の形式が不正な場合、または sub・iss・aud を含む場合
+ * @throws ClaimSourceError ソースからクレームを取得できなかった場合
+ */
+export async function resolveClaimSources<T extends object>(
+  claims: T,
+  options: ClaimSourceResolverOptions,
+): Promise<T> {
+  const {
+    _claim_names: claimNames,
+    _claim_sources: claimSources,
+    ...resolved
+  } = claims as Record<string, unknown>;
+  if (claimNames === undefined) {
+    return claims;
+  }
+  if (!isObject(claimNames) || !isObject(claimSources)) {
+    throw new ProtocolError(
+      "_claim_names and _claim_sources must be JSON objects",
+    );
+  }
+
+  // ソースごとにクレームを取得する（同じソースのクレームは1回の取得にまとめる）
+  const namesBySource = new Map<string, string[]>();
+  for (const [name, source] of Object.entries(claimNames)) {
+    if (typeof source !== "string") {
+      throw new ProtocolError(`_claim_names.${name} must be a string`);
+    }
+    if (PROTECTED_CLAIMS.includes(name)) {
+      throw new ProtocolError(`_claim_names must not contain ${name}`);
+    }
+    namesBySource.set(source, [...(namesBySource.get(source) ?? []), name]);
+  }
+
+  const results = await Promise.all(
+    [...namesBySource].map(async ([sourceName, names]) => {
+      const source = claimSources[sourceName];
+      if (!isObject(source)) {
+        throw new ClaimSourceError(sourceName, "Source is not defined");
+      }
+      const sourceClaims = await fetchSourceClaims(
+        sourceName,
+        source as ClaimSource,
+        options,
+      );
+      for (const name of names) {
+        if (!(name in sourceClaims)) {
+          throw new ClaimSourceError(
+            sourceName,
+            `Source does not contain ${name}`,
+          );
+        }
+      }
+      return names.map((name) => [name, sourceClaims[name]] as const);
+    }),
+  );
+
+  for (const [name, value] of results.flat()) {
+    resolved[name] = value;
+  }
+  return resolved as T;
+}
+
+/**
+ * ソースからクレームを取得する
+ * @param sourceName ソース名（エラーメッセージ用）
+ * @param source クレームのソース
+ * @param options 解決の設定
+ * @returns ソースのクレーム
+ */
+async function fetchSourceClaims(
+  sourceName: string,
+  source: ClaimSource,
+  options: ClaimSourceResolverOptions,
+): Promise<Record<string, unknown>> {
+  // 集約クレーム
+  if (typeof source.JWT === "string") {
+    return verifyClaimsJwt(sourceName, source.JWT, options);
+  }
+  if (typeof source.endpoint !== "string") {
+    throw new ClaimSourceError(
+      sourceName,
+      "Source has neither JWT nor endpoint",
+    );
+  }
+
+  // 分散クレーム（ソースのアクセストークンでエンドポイントにリクエストし、JWT 形式のレスポンスのみ受け付ける）
+  const headers: Record<string, string> = {
+    Accept: "application/jwt",
+  };
+  if (source.access_token) {
+    headers.Authorization = `Bearer ${source.access_token}`;
+  }
+
+  try {
+    const response = await sendRequest(
+      source.endpoint,
+      { headers },
+      options.http,
+    );
+    if (!response.ok) {
+      throw await toResponseError(response, "Claims request");
+    }
+
+    // 署名のない JSON のクレームは発行者を確認できないため受け付けない
+    const contentType = response.headers.get("Content-Type") ?? "";
+    if (!contentType.startsWith("application/jwt")) {
+      throw new Error(
+        `Claims response is not a JWT: ${contentType || "no content type"}`,
+      );
+    }
+    return await verifyClaimsJwt(sourceName, await response.text(), options);
+  } catch (error) {
+    if (error instanceof ClaimSourceError) {
+      throw error;
+    }
+    throw new ClaimSourceError(
+      sourceName,
+      error instanceof Error ? error.message : String(error),
+      error,
+    );
+  }
+}
+
+/**
+ * クレームを含む JWT の署名を発行者の JWK Set で検証する
+ * @param sourceName ソース名（エラーメッセージ用）
+ * @param jwt クレームを含む JWT
+ * @param options 解決の設定
+ * @returns JWT のクレーム
+ */
+async function verifyClaimsJwt(
+  sourceName: string,
+  jwt: string,
+  options: ClaimSourceResolverOptions,
+): Promise<Record<string, unknown>> {
+  try {
+    const { iss } = decodeJwt(jwt);
+    if (typeof iss !== "string") {
+      throw new Error("Claims JWT does not contain iss");
+    }
+    if (!options.trustedIssuers.includes(iss)) {
+      throw new Error(`Claims JWT issuer is not trusted: ${iss}`);
+    }
+
+    const verified = await verifyJws(jwt, await options.getKeySet(iss), {
+      algorithms: options.algorithms,
+    });
+    const payload = JSON.parse(new TextDecoder().decode(verified.payload));
+    if (!isObject(payload)) {
+      throw new Error("Claims JWT payload is not a JSON object");
+    }
+    return payload;
+  } catch (error) {
+    throw new ClaimSourceError(
+      sourceName,
+      `Claims JWT verification failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      error,
+    );
+  }
+}
+
+/**
+ * JSON オブジェクトか判定する
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,132 @@
+import {
+  decodeProtectedHeader,
+  exportJWK,
+  generateKeyPair,
+  jwtVerify,
+} from "jose";
+import { describe, expect, it } from "vitest";
+import {
+  type ClientCredentials,
+  applyClientAuthentication,
+  createClientAssertion,
+} from "./clientAuth";
+
+describe("clientAuth", () => {
+  const audience = "https://auth.example.com/token";
+
+  // クライアント認証を適用したリクエストを生成する
+  const apply = async (credentials: ClientCredentials) => {
+    const params = new URLSearchParams({ client_id: credentials.clientId });
+    const headers: Record<string, string> = {};
+    await applyClientAuthentication(credentials, audience, params, headers);
+    return { params, headers };
+  };
+
+  describe("applyClientAuthentication", () => {
+    it("noneの場合は何も追加しない", async () => {
+      const { params, headers } = await apply({
+        clientId: "client",
+        method: "none",
+        clientSecret: "secret",
+      });
+
+      expect(params.toString()).toBe("client_id=client");
+      expect(headers).toEqual({});
+    });
+
+    it("client_secret_postの場合はリクエストボディにclient_secretを追加する", async () => {
+      const { params, headers } = await apply({
+        clientId: "client",
+        method: "client_secret_post",
+        clientSecret: "secret",
+      });
+
+      expect(params.get("client_secret")).toBe("secret");
+      expect(headers).toEqual({});
+    });
+
+    it("client_secret_basicの場合はform-urlencodeした値をBase64エンコードする", async () => {
+      const { params, headers } = await apply({
+        clientId: "client:1",
+        method: "client_secret_basic",
+        clientSecret: "s e/cret+",
+      });
+
+      expect(headers.Authorization).toBe(
+        `Basic ${Buffer.from("client%3A1:s+e%2Fcret%2B").toString("base64")}`,
+      );
+      expect(params.has("client_secret")).toBe(false);
+    });
+
+    it("client_secret_jwtの場合はclient_secretで署名したclient_assertionを追加する", async () => {
+      const { params } = await apply({
+        clientId: "client",
+        method: "client_secret_jwt",
+        clientSecret: "a-sufficiently-long-client-secret-value",
+      });
+
+      expect(params.get("client_assertion_type")).toBe(
+        "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      );
+      const { payload, protectedHeader } = await jwtVerify(
+        params.get("client_assertion") ?? "",
+        new TextEncoder().encode("a-sufficiently-long-client-secret-value"),
+        { audience, issuer: "client", subject: "client" },
+      );
+      expect(protectedHeader.alg).toBe("HS256");
+      expect(payload.jti).toEqual(expect.any(String));
+      expect(payload.exp).toBe((payload.iat ?? 0) + 60);
+    });
+
+    it("client_secretがない場合はエラーをスローする", async () => {
+      await expect(
+        apply({ clientId: "client", method: "client_secret_post" }),
+      ).rejects.toThrow("clientSecret is required for client_secret_post");
+    });
+  });
+
+  describe("createClientAssertion", () => {
+    it("private_key_jwtの場合はJWKのkidとalgを使用する", async () => {
+      const keyPair = await generateKeyPair("ES256", { extractable: true });
+      const privateKey = {
+        ...(await exportJWK(keyPair.privateKey)),
+        kid: "client-key",
+        alg: "ES256",
+      };
+
+      const assertion = await createClientAssertion(
+        { clientId: "client", method: "private_key_jwt", privateKey },
+        audience,
+      );
+
+      expect(decodeProtectedHeader(assertion)).toEqual({
+        alg: "ES256",
+        typ: "JWT",
+        kid: "client-key",
+      });
+      await expect(
+        jwtVerify(assertion, keyPair.publicKey, { audience }),
+      ).resolves.toBeDefined();
+    });
+
+    it("jtiはリクエストごとに異なる", async () => {
+      const credentials: ClientCredentials = {
+        clientId: "client",
+        method: "client_secret_jwt",
+        clientSecret: "a-sufficiently-long-client-secret-value",
+      };
+      const assertion1 = await createClientAssertion(credentials, audience);
+      const assertion2 = await createClientAssertion(credentials, audience);
+
+      const { payload: payload1 } = await jwtVerify(
+        assertion1,
+        new TextEncoder().encode(credentials.clientSecret),
+      );
+      const { payload: payload2 } = await jwtVerify(
+        assertion2,
+        new TextEncoder().encode(credentials.clientSecret),
+      );
+      expect(payload1.jti).not.toBe(payload2.jti);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * トークンエンドポイントでのクライアント認証（OpenID Connect Core 1.0 9 / RFC 7523）
+ */
+import { type JWK, SignJWT, base64url, importJWK } from "jose";
+
+export type ClientAuthMethod =
+  | "none"
+  | "client_secret_post"
+  | "client_secret_basic"
+  | "client_secret_jwt"
+  | "private_key_jwt";
+
+export const CLIENT_AUTH_METHODS: ClientAuthMethod[] = [
+  "none",
+  "client_secret_post",
+  "client_secret_basic",
+  "client_secret_jwt",
+  "private_key_jwt",
+];
+
+// クライアント認証に必要な情報
+export interface ClientCredentials {
+  clientId: string;
+  method: ClientAuthMethod;
+  clientSecret?: string; // client_secret_post / client_secret_basic / client_secret_jwt
+  privateKey?: JWK; // private_key_jwt（秘密鍵の JWK）
+  signingAlg?: string; // client_secret_jwt（デフォルト: HS256）/ private_key_jwt（デフォルト: JWK の alg または RS256）
+}
+
+// client_assertion の有効期間（秒）
+const ASSERTION_LIFETIME = 60;
+
+/**
+ * リクエストにクライアント認証の情報を追加する
+ * @param credentials クライアント認証に必要な情報
+ * @param audience client_assertion の aud（トークンエンドポイントのURL）
+ * @param params リクエストパラメータ
+ * @param headers リクエストヘッダー
+ */
+export async function applyClientAuthentication(
+  credentials: ClientCredentials,
+  audience: string,
+  params: URLSearchParams,
+  headers: Record<string, string>,
+): Promise<void> {
+  switch (credentials.method) {
+    case "none":
+      return;
+    case "client_secret_post":
+      params.set("client_secret", requireSecret(credentials));
+      return;
+    case "client_secret_basic":
+      // client_id と client_secret はそれぞれ form-urlencode してから結合する（RFC 6749 2.3.1）
+      headers.Authorization = `Basic ${base64Encode(
+        `${formEncode(credentials.clientId)}:${formEncode(requireSecret(credentials))}`,
+      )}`;
+      return;
+    case "client_secret_jwt":
+    case "private_key_jwt":
+      params.set(
+        "client_assertion_type",
+        "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      );
+      params.set(
+        "client_assertion",
+        await createClientAssertion(credentials, audience),
+      );
+      return;
+    default:
+      throw new Error(
+        `Unsupported token endpoint auth method: ${String(credentials.method)}`,
+      );
+  }
+}
+
+/**
+ * client_assertion（クライアント認証用の JWT）を生成する
+ * @param credentials クライアント認証に必要な情報
+ * @param audience JWT の aud
+ * @returns 署名済みの JWT
+ */
+export async function createClientAssertion(
+  credentials: ClientCredentials,
+  audience: string,
+): Promise<string> {
+  let alg: string;
+  let key: CryptoKey | Uint8Array;
+  let kid: string | undefined;
+  if (credentials.method === "client_secret_jwt") {
+    alg = credentials.signingAlg ?? "HS256";
+    key = new TextEncoder().encode(requireSecret(credentials));
+  } else {
+    if (!credentials.privateKey) {
+      throw new Error("privateKey is required for private_key_jwt");
+    }
+    alg = credentials.signingAlg ?? credentials.privateKey.alg ?? "RS256";
+    key = (await importJWK(credentials.privateKey, alg)) as CryptoKey;
+    kid = credentials.privateKey.kid;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const jti = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(jti);
+
+  return new SignJWT({})
+    .setProtectedHeader({ alg, typ: "JWT", kid })
+    .setIssuer(credentials.clientId)
+    .setSubject(credentials.clientId)
+    .setAudience(audience)
+    .setJti(base64url.encode(jti))
+    .setIssuedAt(now)
+    .setExpirationTime(now + ASSERTION_LIFETIME)
+    .sign(key);
+}
+
+/**
+ * client_secret を取得する
+ * @param credentials クライアント認証に必要な情報
+ * @returns client_secret
+ */
+function requireSecret(credentials: ClientCredentials): string {
+  if (!credentials.clientSecret) {
+    throw new Error(`clientSecret is required for ${credentials.method}`);
+  }
+  return credentials.clientSecret;
+}
+
+/**
+ * application/x-www-form-urlencoded の形式でエンコードする
+ */
+function formEncode(value: string): string {
+  return new URLSearchParams({ v: value }).toString().slice(2);
+}
+
+/**
+ * 文字列を Base64 エンコードする
+ */
+function base64Encode(value: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+}
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type ProviderMetadata,
+  clearProviderMetadataCache,
+  fetchProviderMetadata,
+  getDiscoveryUrl,
+} from "./discovery";
+
+// モックの設定
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe("discovery", () => {
+  const issuer = "https://auth.example.com";
+
+  // テスト用のプロバイダーメタデータ
+  const metadata: ProviderMetadata = {
+    issuer,
+    authorization_endpoint: "https://auth.example.com/authorize",
+    token_endpoint: "https://auth.example.com/token",
+    jwks_uri: "https://auth.example.com/jwks",
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    clearProviderMetadataCache();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  describe("getDiscoveryUrl", () => {
+    it("発行者のパスを保持したURLを生成する", () => {
+      expect(getDiscoveryUrl("https://auth.example.com")).toBe(
+        "https://auth.example.com/.well-known/openid-configuration",
+      );
+      expect(getDiscoveryUrl("https://auth.example.com/tenant/")).toBe(
+        "https://auth.example.com/tenant/.well-known/openid-configuration",
+      );
+    });
+  });
+
+  describe("fetchProviderMetadata", () => {
+    it("メタデータを取得してキャッシュする", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => metadata,
+      });
+
+      expect(await fetchProviderMetadata(issuer)).toEqual(metadata);
+      expect(await fetchProviderMetadata(issuer)).toEqual(metadata);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://auth.example.com/.well-known/openid-configuration",
+        { headers: { Accept: "application/json" } },
+      );
+    });
+
+    it("キャッシュの有効期間を過ぎた場合は再取得する", async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => metadata,
+      });
+
+      await fetchProviderMetadata(issuer);
+      await fetchProviderMetadata(issuer, { maxAge: 0 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("HTTPリクエストの設定が異なる場合はキャッシュを共有しない", async () => {
+      const customFetch = vi
+        .fn()
+        .mockResolvedValueOnce(Response.json(metadata));
+      mockFetch.mockResolvedValueOnce(Response.json(metadata));
+
+      await fetchProviderMetadata(issuer);
+      await fetchProviderMetadata(issuer, { http: { fetch: customFetch } });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(customFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("jwks_uriがない場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ ...metadata, jwks_uri: undefined }),
+      );
+
+      await expect(fetchProviderMetadata(issuer)).rejects.toThrow(
+        "jwks_uri is missing in provider metadata",
+      );
+    });
+
+    it("issuerが一致しない場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ ...metadata, issuer: "https://evil.example.com" }),
+      });
+
+      await expect(fetchProviderMetadata(issuer)).rejects.toThrow(
+        "Issuer mismatch: expected https://auth.example.com, got https://evil.example.com",
+      );
+    });
+
+    it("末尾のスラッシュの有無も区別する", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => metadata,
+      });
+
+      await expect(fetchProviderMetadata(`${issuer}/`)).rejects.toThrow(
+        "Issuer mismatch",
+      );
+    });
+
+    it("取得に失敗した場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { status: 404, statusText: "Not Found" }),
+      );
+
+      await expect(fetchProviderMetadata(issuer)).rejects.toThrow(
+        "Discovery request failed: Not Found",
+      );
+    });
+  });
+});
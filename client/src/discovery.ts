@@ -0,0 +1,139 @@
+/**
+ * OpenID Connect Discovery 1.0 によるプロバイダーメタデータの取得
+ */
+import { ProtocolError } from "./errors";
+import {
+  type HttpOptions,
+  readJson,
+  sendRequest,
+  toResponseError,
+} from "./http";
+
+// プロバイダーメタデータ（/.well-known/openid-configuration のレスポンス）
+export interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint?: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+  registration_endpoint?: string;
+  end_session_endpoint?: string;
+  revocation_endpoint?: string;
+  introspection_endpoint?: string;
+  device_authorization_endpoint?: string;
+  pushed_authorization_request_endpoint?: string;
+  require_pushed_authorization_requests?: boolean;
+  scopes_supported?: string[];
+  response_types_supported: string[];
+  response_modes_supported?: string[];
+  grant_types_supported?: string[];
+  acr_values_supported?: string[];
+  subject_types_supported: string[];
+  id_token_signing_alg_values_supported: string[];
+  userinfo_signing_alg_values_supported?: string[];
+  request_object_signing_alg_values_supported?: string[];
+  authorization_signing_alg_values_supported?: string[]; // JARM
+  token_endpoint_auth_methods_supported?: string[];
+  token_endpoint_auth_signing_alg_values_supported?: string[];
+  claims_supported?: string[];
+  claims_parameter_supported?: boolean;
+  request_parameter_supported?: boolean;
+  request_uri_parameter_supported?: boolean;
+  code_challenge_methods_supported?: string[];
+  dpop_signing_alg_values_supported?: string[];
+  authorization_response_iss_parameter_supported?: boolean; // RFC 9207
+  [key: string]: unknown; // その他のメタデータ
+}
+
+export interface DiscoveryOptions {
+  // キャッシュの有効期間（ミリ秒、デフォルト: 1時間）
+  maxAge?: number;
+  // HTTP リクエストの設定
+  http?: HttpOptions;
+}
+
+// HTTP リクエストの設定と発行者ごとのメタデータのキャッシュ
+// fetch の実装や追加のヘッダーが異なる RP どうしでは、取得したメタデータを共有しない
+const caches = new Map<
+  HttpOptions | undefined,
+  Map<string, { metadata: ProviderMetadata; fetchedAt: number }>
+>();
+
+/**
+ * 発行者からメタデータの取得先URLを生成する
+ * @param issuer 発行者の識別子
+ * @returns /.well-known/openid-configuration のURL
+ */
+export function getDiscoveryUrl(issuer: string): string {
+  return `${issuer.replace(/\/+$/, "")}/.well-known/openid-configuration`;
+}
+
+/**
+ * プロバイダーメタデータを取得する
+ * @param issuer 発行者の識別子
+ * @param options 取得の設定
+ * @returns プロバイダーメタデータ
+ */
+export async function fetchProviderMetadata(
+  issuer: string,
+  options: DiscoveryOptions = {},
+): Promise<ProviderMetadata> {
+  const maxAge = options.maxAge ?? 60 * 60 * 1000;
+  let cache = caches.get(options.http);
+  if (!cache) {
+    cache = new Map();
+    caches.set(options.http, cache);
+  }
+  const cached = cache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < maxAge) {
+    return cached.metadata;
+  }
+
+  const response = await sendRequest(
+    getDiscoveryUrl(issuer),
+    {
+      headers: {
+        Accept: "application/json",
+      },
+    },
+    options.http,
+  );
+
+  if (!response.ok) {
+    throw await toResponseError(response, "Discovery request");
+  }
+
+  const metadata = await readJson<ProviderMetadata>(response, "Discovery");
+
+  // 発行者の検証（完全一致であること）
+  if (metadata.issuer !== issuer) {
+    throw new ProtocolError(
+      `Issuer mismatch: expected ${issuer}, got ${String(metadata.issuer)}`,
+    );
+  }
+  if (!metadata.authorization_endpoint) {
+    throw new ProtocolError(
+      "authorization_endpoint is missing in provider metadata",
+    );
+  }
+  if (!metadata.jwks_uri) {
+    throw new ProtocolError("jwks_uri is missing in provider metadata");
+  }
+
+  cache.set(issuer, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+/**
+ * キャッシュされたプロバイダーメタデータを削除する
+ * @param issuer 発行者の識別子（省略時はすべて削除）
+ */
+export function clearProviderMetadataCache(issuer?: string): void {
+  if (issuer === undefined) {
+    caches.clear();
+    return;
+  }
+  for (const cache of caches.values()) {
+    cache.delete(issuer);
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  calculateJwkThumbprint,
+  decodeJwt,
+  decodeProtectedHeader,
+  importJWK,
+  jwtVerify,
+} from "jose";
+import { describe, expect, it } from "vitest";
+import { DPoPSigner } from "./dpop";
+
+describe("DPoPSigner", () => {
+  it("DPoP証明を生成する", async () => {
+    const dpop = await DPoPSigner.generate();
+    const proof = await dpop.createProof(
+      "post",
+      "https://auth.example.com/token?foo=bar#baz",
+    );
+
+    const header = decodeProtectedHeader(proof);
+    expect(header).toMatchObject({ alg: "ES256", typ: "dpop+jwt" });
+    expect(header.jwk).toMatchObject({ kty: "EC", crv: "P-256" });
+    expect(header.jwk).not.toHaveProperty("d");
+
+    // 埋め込まれた公開鍵で検証できる
+    const { payload } = await jwtVerify(
+      proof,
+      await importJWK(header.jwk ?? {}, "ES256"),
+    );
+    expect(payload).toMatchObject({
+      htm: "POST",
+      htu: "https://auth.example.com/token",
+    });
+    expect(payload.jti).toEqual(expect.any(String));
+    expect(payload.iat).toEqual(expect.any(Number));
+    expect(payload).not.toHaveProperty("ath");
+    expect(payload).not.toHaveProperty("nonce");
+  });
+
+  it("同じ鍵で署名し、証明ごとにjtiを変える", async () => {
+    const dpop = await DPoPSigner.generate();
+    const url = "https://auth.example.com/token";
+    const first = await dpop.createProof("POST", url);
+    const second = await dpop.createProof("POST", url);
+
+    const thumbprint = (proof: string) =>
+      calculateJwkThumbprint(decodeProtectedHeader(proof).jwk ?? {});
+    expect(await thumbprint(first)).toBe(await thumbprint(second));
+    expect(decodeJwt(first).jti).not.toBe(decodeJwt(second).jti);
+  });
+
+  it("アクセストークンのハッシュをathに含める", async () => {
+    const dpop = await DPoPSigner.generate();
+    const proof = await dpop.createProof(
+      "GET",
+      "https://api.example.com/resource",
+      "Kz~8mXK1EalYznwH-LC-1fBAo.4Ljp~zsPE_NeO.gxU",
+    );
+
+    // RFC 9449 7.1 の例
+    expect(decodeJwt(proof).ath).toBe(
+      "fUHyO2r2Z3DZ53EsNrWBb0xWXoaNy59IiKCAqksmQEo",
+    );
+  });
+
+  it.each(["RS256", "PS256", "EdDSA"] as const)("%sで署名する", async (alg) => {
+    const dpop = await DPoPSigner.generate(alg);
+    const proof = await dpop.createProof("GET", "https://api.example.com");
+
+    expect(decodeProtectedHeader(proof).alg).toBe(alg);
+  });
+
+  describe("processResponse", () => {
+    const url = "https://auth.example.com/token";
+
+    it("use_dpop_nonceエラーの場合はnonceを保存して再送を求める", async () => {
+      const dpop = await DPoPSigner.generate();
+      const response = Response.json(
+        { error: "use_dpop_nonce" },
+        { status: 400, headers: { "DPoP-Nonce": "server-nonce" } },
+      );
+
+      expect(await dpop.processResponse(url, response)).toBe(true);
+      // レスポンスのボディは読み取られていない
+      expect(response.bodyUsed).toBe(false);
+
+      // 同じオリジンへの証明に nonce を含める
+      const proof = await dpop.createProof(
+        "GET",
+        "https://auth.example.com/userinfo",
+      );
+      expect(decodeJwt(proof).nonce).toBe("server-nonce");
+      const other = await dpop.createProof("GET", "https://api.example.com");
+      expect(decodeJwt(other)).not.toHaveProperty("nonce");
+    });
+
+    it("WWW-Authenticateヘッダーのuse_dpop_nonceエラーの場合は再送を求める", async () => {
+      const dpop = await DPoPSigner.generate();
+      const response = new Response(null, {
+        status: 401,
+        headers: {
+          "DPoP-Nonce": "server-nonce",
+          "WWW-Authenticate": 'DPoP error="use_dpop_nonce"',
+        },
+      });
+
+      expect(
+        await dpop.processResponse("https://api.example.com", response),
+      ).toBe(true);
+    });
+
+    it("成功したレスポンスのnonceは保存のみ行う", async () => {
+      const dpop = await DPoPSigner.generate();
+      const response = Response.json(
+        { access_token: "token" },
+        { headers: { "DPoP-Nonce": "next-nonce" } },
+      );
+
+      expect(await dpop.processResponse(url, response)).toBe(false);
+      expect(decodeJwt(await dpop.createProof("POST", url)).nonce).toBe(
+        "next-nonce",
+      );
+    });
+
+    it("nonceが変わらない場合は再送を求めない", async () => {
+      const dpop = await DPoPSigner.generate();
+      const useNonce = () =>
+        Response.json(
+          { error: "use_dpop_nonce" },
+          { status: 400, headers: { "DPoP-Nonce": "server-nonce" } },
+        );
+
+      expect(await dpop.processResponse(url, useNonce())).toBe(true);
+      expect(await dpop.processResponse(url, useNonce())).toBe(false);
+    });
+  });
+});
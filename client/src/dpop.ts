@@ -0,0 +1,150 @@
+/**
+ * DPoP による送信者制約付きトークン（RFC 9449）
+ */
+import {
+  type CryptoKey,
+  type JWK,
+  SignJWT,
+  base64url,
+  exportJWK,
+  generateKeyPair,
+} from "jose";
+import { parseWWWAuthenticate } from "./errors";
+
+// DPoP 証明の署名に使用できるアルゴリズム
+export type DPoPSigningAlgorithm =
+  | "ES256"
+  | "ES384"
+  | "PS256"
+  | "RS256"
+  | "EdDSA";
+
+/**
+ * DPoP 証明の生成と、サーバーごとの DPoP-Nonce の管理を行う
+ * 1つのクライアントで同じ鍵ペアを使い続けることで、発行されたトークンがその鍵に束縛される
+ */
+export class DPoPSigner {
+  public readonly alg: DPoPSigningAlgorithm;
+  private readonly privateKey: CryptoKey;
+  private readonly publicKey: CryptoKey;
+  private publicJwk?: Promise<JWK>;
+  private readonly nonces = new Map<string, string>(); // オリジンごとの DPoP-Nonce
+
+  /**
+   * コンストラクタ
+   * @param keyPair 署名に使用する鍵ペア
+   * @param alg 署名アルゴリズム（デフォルト: ES256）
+   */
+  constructor(
+    keyPair: { privateKey: CryptoKey; publicKey: CryptoKey },
+    alg: DPoPSigningAlgorithm = "ES256",
+  ) {
+    this.privateKey = keyPair.privateKey;
+    this.publicKey = keyPair.publicKey;
+    this.alg = alg;
+  }
+
+  /**
+   * 新しい鍵ペアを生成して DPoPSigner を作成する（秘密鍵はエクスポートできない）
+   * @param alg 署名アルゴリズム（デフォルト: ES256）
+   * @returns DPoPSigner
+   */
+  public static async generate(
+    alg: DPoPSigningAlgorithm = "ES256",
+  ): Promise<DPoPSigner> {
+    return new DPoPSigner(await generateKeyPair(alg), alg);
+  }
+
+  /**
+   * DPoP 証明を生成する
+   * @param method HTTPメソッド（htm）
+   * @param url リクエスト先（htu、クエリとフラグメントは除く）
+   * @param accessToken リソースへのリクエストの場合はアクセストークン（ath を含める）
+   * @returns DPoP ヘッダーの値
+   */
+  public async createProof(
+    method: string,
+    url: string,
+    accessToken?: string,
+  ): Promise<string> {
+    const htu = new URL(url);
+    htu.search = "";
+    htu.hash = "";
+
+    const jti = new Uint8Array(16);
+    globalThis.crypto.getRandomValues(jti);
+
+    const payload: Record<string, unknown> = {
+      jti: base64url.encode(jti),
+      htm: method.toUpperCase(),
+      htu: htu.toString(),
+      iat: Math.floor(Date.now() / 1000),
+    };
+    const nonce = this.nonces.get(htu.origin);
+    if (nonce) {
+      payload.nonce = nonce;
+    }
+    if (accessToken !== undefined) {
+      const digest = await globalThis.crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(accessToken),
+      );
+      payload.ath = base64url.encode(new Uint8Array(digest));
+    }
+
+    this.publicJwk ??= exportJWK(this.publicKey);
+    const { kty, crv, x, y, n, e } = await this.publicJwk;
+    return new SignJWT(payload)
+      .setProtectedHeader({
+        alg: this.alg,
+        typ: "dpop+jwt",
+        jwk: { kty, crv, x, y, n, e },
+      })
+      .sign(this.privateKey);
+  }
+
+  /**
+   * レスポンスの DPoP-Nonce を保存し、nonce を付けて再送する必要があるか判定する
+   * @param url リクエスト先
+   * @param response レスポンス
+   * @returns use_dpop_nonce エラーで新しい nonce を受け取った場合は true
+   */
+  public async processResponse(
+    url: string,
+    response: Response,
+  ): Promise<boolean> {
+    const nonce = response.headers.get("DPoP-Nonce");
+    if (!nonce) {
+      return false;
+    }
+    const origin = new URL(url).origin;
+    const changed = this.nonces.get(origin) !== nonce;
+    this.nonces.set(origin, nonce);
+    if (!changed) {
+      return false;
+    }
+
+    // リソースサーバーのエラー（RFC 9449 9）
+    const wwwAuthenticate = response.headers.get("WWW-Authenticate");
+    const challenge = wwwAuthenticate
+      ? parseWWWAuthenticate(wwwAuthenticate)
+      : undefined;
+    if (
+      challenge?.scheme.toLowerCase() === "dpop" &&
+      challenge.parameters.error === "use_dpop_nonce"
+    ) {
+      return true;
+    }
+
+    // 認可サーバーのエラー（RFC 9449 8）
+    if (response.status !== 400) {
+      return false;
+    }
+    try {
+      const body = (await response.clone().json()) as Record<string, unknown>;
+      return body?.error === "use_dpop_nonce";
+    } catch {
+      return false;
+    }
+  }
+}
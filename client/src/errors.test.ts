@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import {
+  BearerTokenError,
+  OAuthError,
+  OpenIDConnectError,
+  parseWWWAuthenticate,
+} from "./errors";
+
+describe("errors", () => {
+  describe("OAuthError", () => {
+    it("エラーレスポンスのパラメータを保持する", () => {
+      const error = new OAuthError(
+        {
+          error: "invalid_client",
+          error_description: "Client authentication failed",
+          error_uri: "https://auth.example.com/errors",
+        },
+        401,
+      );
+
+      expect(error).toBeInstanceOf(OpenIDConnectError);
+      expect(error.name).toBe("OAuthError");
+      expect(error.message).toBe(
+        "invalid_client: Client authentication failed",
+      );
+      expect(error).toMatchObject({
+        error: "invalid_client",
+        errorDescription: "Client authentication failed",
+        errorUri: "https://auth.example.com/errors",
+        status: 401,
+      });
+    });
+  });
+
+  describe("BearerTokenError", () => {
+    it("errorがない場合はinvalid_tokenとする", () => {
+      const error = new BearerTokenError("Bearer", { realm: "example" }, 401);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error.name).toBe("BearerTokenError");
+      expect(error.error).toBe("invalid_token");
+    });
+  });
+
+  describe("parseWWWAuthenticate", () => {
+    it("スキームとパラメータを解析する", () => {
+      expect(
+        parseWWWAuthenticate(
+          'Bearer realm="example", error="insufficient_scope", scope="openid \\"email\\"", max_age=300',
+        ),
+      ).toEqual({
+        scheme: "Bearer",
+        parameters: {
+          realm: "example",
+          error: "insufficient_scope",
+          scope: 'openid "email"',
+          max_age: "300",
+        },
+      });
+    });
+
+    it("パラメータがない場合は空のオブジェクトを返す", () => {
+      expect(parseWWWAuthenticate("DPoP")).toEqual({
+        scheme: "DPoP",
+        parameters: {},
+      });
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * OpenID Connect RP のエラー
+ */
+import type { IdTokenValidationFailureReason } from "./idTokenValidator";
+
+/**
+ * すべてのエラーの基底クラス
+ */
+export class OpenIDConnectError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * OP が返した OAuth 2.0 のエラー（RFC 6749 5.2 / 4.1.2.1）
+ */
+export class OAuthError extends OpenIDConnectError {
+  public readonly error: string;
+  public readonly errorDescription?: string;
+  public readonly errorUri?: string;
+  public readonly status?: number; // HTTPステータス（認証レスポンスの場合は undefined）
+
+  /**
+   * コンストラクタ
+   * @param params エラーレスポンスのパラメータ
+   * @param status HTTPステータス
+   */
+  constructor(
+    params: { error: string; error_description?: string; error_uri?: string },
+    status?: number,
+  ) {
+    super(
+      params.error_description
+        ? `${params.error}: ${params.error_description}`
+        : params.error,
+    );
+    this.error = params.error;
+    this.errorDescription = params.error_description;
+    this.errorUri = params.error_uri;
+    this.status = status;
+  }
+}
+
+/**
+ * リソースサーバー（UserInfo エンドポイントなど）が WWW-Authenticate ヘッダーで返したエラー（RFC 6750 3）
+ */
+export class BearerTokenError extends OAuthError {
+  public readonly scheme: string;
+  public readonly parameters: Record<string, string>;
+
+  /**
+   * コンストラクタ
+   * @param scheme 認証スキーム（Bearer など）
+   * @param parameters WWW-Authenticate ヘッダーのパラメータ
+   * @param status HTTPステータス
+   */
+  constructor(
+    scheme: string,
+    parameters: Record<string, string>,
+    status?: number,
+  ) {
+    super(
+      {
+        error: parameters.error ?? "invalid_token",
+        error_description: parameters.error_description,
+        error_uri: parameters.error_uri,
+      },
+      status,
+    );
+    this.scheme = scheme;
+    this.parameters = parameters;
+  }
+}
+
+/**
+ * レスポンスがプロトコルに違反している（不正な形式、想定外のステータス、state の不一致など）
+ */
+export class ProtocolError extends OpenIDConnectError {
+  public readonly status?: number;
+
+  /**
+   * コンストラクタ
+   * @param message エラーメッセージ
+   * @param status HTTPステータス
+   */
+  constructor(message: string, status?: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * 認証レスポンスの state に対応する認証リクエストが存在しない
+ */
+export class StateMismatchError extends ProtocolError {
+  constructor(message = "State parameter does not match") {
+    super(message);
+  }
+}
+
+/**
+ * 認証レスポンスなどに含まれるIDトークンの検証に失敗した
+ */
+export class IdTokenValidationError extends ProtocolError {
+  public readonly reason: IdTokenValidationFailureReason;
+
+  /**
+   * コンストラクタ
+   * @param reason 検証失敗の理由
+   * @param message エラーメッセージ
+   */
+  constructor(reason: IdTokenValidationFailureReason, message: string) {
+    super(`ID Token validation failed (${reason}): ${message}`);
+    this.reason = reason;
+  }
+}
+
+/**
+ * 集約クレーム・分散クレームのソースからクレームを取得できなかった
+ */
+export class ClaimSourceError extends OpenIDConnectError {
+  public readonly source: string; // _claim_sources のソース名
+
+  /**
+   * コンストラクタ
+   * @param source ソース名
+   * @param message エラーメッセージ
+   * @param cause 原因となったエラー
+   */
+  constructor(source: string, message: string, cause?: unknown) {
+    super(`Claim source "${source}" failed: ${message}`, { cause });
+    this.source = source;
+  }
+}
+
+/**
+ * ネットワークエラーにより OP にリクエストできなかった
+ */
+export class NetworkError extends OpenIDConnectError {
+  /**
+   * コンストラクタ
+   * @param message エラーメッセージ
+   * @param cause fetch がスローしたエラー
+   */
+  constructor(message: string, cause: unknown) {
+    super(message, { cause });
+  }
+}
+
+/**
+ * WWW-Authenticate ヘッダーを解析する
+ * @param header WWW-Authenticate ヘッダーの値
+ * @returns 認証スキームとパラメータ
+ */
+export function parseWWWAuthenticate(
+  header: string,
+): { scheme: string; parameters: Record<string, string> } | undefined {
+  const match = header.match(/^\s*([!#$%&'*+.^_`|~0-9A-Za-z-]+)\s*(.*)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const parameters: Record<string, string> = {};
+  for (const param of match[2].matchAll(
+    /([!#$%&'*+.^_`|~0-9A-Za-z-]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^,\s]*))/g,
+  )) {
+    parameters[param[1].toLowerCase()] =
+      param[2] !== undefined ? param[2].replace(/\\(.)/g, "$1") : param[3];
+  }
+
+  return { scheme: match[1], parameters };
+}
@@ -1,7 +1,11 @@
 /**
  * OpenID Connect RPの使用例
  */
-import OpenIDConnectRP from "./index";
+import OpenIDConnectRP, {
+  OAuthError,
+  TokenSet,
+  TokenSetManager,
+} from "./index";
 
 /**
  * OpenID Connect RPの使用例を示す関数
@@ -13,14 +17,16 @@ async function exampleUsage() {
       clientId: "your-client-id",
       clientSecret: "your-client-secret",
       redirectUri: "https://your-app.example.com/callback",
+      issuer: "https://auth.example.com",
       authorizationEndpoint: "https://auth.example.com/authorize",
       tokenEndpoint: "https://auth.example.com/token",
       userinfoEndpoint: "https://auth.example.com/userinfo",
+      jwksUri: "https://auth.example.com/jwks",
       scope: "openid profile email",
     });
 
     // 2. 認証リクエストURLの生成
-    const authUrl = rp.generateAuthorizationUrl();
+    const authUrl = await rp.generateAuthorizationUrl();
     console.log("認証URL:", authUrl);
     // この認証URLにユーザーをリダイレクトします
     // 例: window.location.href = authUrl;
@@ -32,40 +38,43 @@ async function exampleUsage() {
     const callbackResult = await rp.handleCallback(callbackUrl);
 
     if (callbackResult.error) {
-      console.error(
-        "認証エラー:",
-        callbackResult.error,
-        callbackResult.errorDescription,
-      );
+      // OAuthError の場合は error で OP のエラーコードを判別できる
+      if (callbackResult.error instanceof OAuthError) {
+        console.error("認証エラー:", callbackResult.error.error);
+      }
+      console.error("認証エラー:", callbackResult.error.message);
       return;
     }
 
-    if (!callbackResult.tokenResponse) {
+    if (!callbackResult.tokenResponse || !callbackResult.idTokenClaims) {
       console.error("トークンレスポンスがありません");
       return;
     }
 
-    // 4. トークンの取得と検証
-    const { access_token, id_token } = callbackResult.tokenResponse;
-
-    if (id_token) {
-      const isValid = rp.validateIdToken(id_token);
-      console.log("IDトークンの検証結果:", isValid);
-    }
+    // 4. トークンの取得（IDトークンはトランザクションの nonce・max_age と照合して検証済み）
+    const { access_token } = callbackResult.tokenResponse;
+    const subject = callbackResult.idTokenClaims.sub;
+    console.log("IDトークンのクレーム:", callbackResult.idTokenClaims);
 
-    // 5. ユーザー情報の取得
+    // 5. ユーザー情報の取得（IDトークンの sub と一致することを確認する）
     if (access_token) {
-      const userInfo = await rp.getUserInfo(access_token);
+      const userInfo = await rp.getUserInfo(access_token, {
+        expectedSubject: subject,
+      });
       console.log("ユーザー情報:", userInfo);
     }
 
-    // 6. リフレッシュトークンの使用（存在する場合）
-    if (callbackResult.tokenResponse.refresh_token) {
-      const refreshedTokens = await rp.refreshToken(
-        callbackResult.tokenResponse.refresh_token,
-      );
-      console.log("リフレッシュされたトークン:", refreshedTokens);
-    }
+    // 6. 有効なアクセストークンの取得（期限が近い場合はリフレッシュトークンで自動更新）
+    const tokens = new TokenSetManager(
+      rp,
+      new TokenSet(callbackResult.tokenResponse),
+      {
+        onRefresh: (tokenSet) => {
+          console.log("リフレッシュされたトークン:", tokenSet.toResponse());
+        },
+      },
+    );
+    console.log("アクセストークン:", await tokens.getAccessToken());
   } catch (error) {
     console.error("エラーが発生しました:", error);
   }
@@ -80,84 +89,49 @@ function expressExample() {
   // Expressアプリケーションの例（実際には実行されません）
   /*
   import express from "express";
-  import session from "express-session";
-  import OpenIDConnectRP from "./index";
+  import { createAuthMiddleware } from "./middleware";
 
   const app = express();
-  
-  // セッションの設定
-  app.use(session({
-    secret: "your-session-secret",
-    resave: false,
-    saveUninitialized: true,
-  }));
-
-  // OpenID Connect RPの初期化
-  const rp = new OpenIDConnectRP({
-    clientId: "your-client-id",
-    clientSecret: "your-client-secret",
-    redirectUri: "http://localhost:3000/callback",
-    authorizationEndpoint: "https://auth.example.com/authorize",
-    tokenEndpoint: "https://auth.example.com/token",
-    userinfoEndpoint: "https://auth.example.com/userinfo",
-  });
-
-  // ログインページ
-  app.get("/login", (req, res) => {
-    // stateとnonceをセッションに保存
-    req.session.state = rp.state;
-    req.session.nonce = rp.nonce;
-    
-    // 認証URLにリダイレクト
-    const authUrl = rp.generateAuthorizationUrl();
-    res.redirect(authUrl);
-  });
-
-  // コールバックページ
-  app.get("/callback", async (req, res) => {
-    try {
-      // コールバック処理
-      const callbackResult = await rp.handleCallback(req.url);
-      
-      if (callbackResult.error) {
-        return res.status(400).send(`認証エラー: ${callbackResult.error} - ${callbackResult.errorDescription}`);
-      }
-      
-      if (!callbackResult.tokenResponse) {
-        return res.status(400).send("トークンレスポンスがありません");
-      }
-      
-      // トークンをセッションに保存
-      req.session.tokens = callbackResult.tokenResponse;
-      
-      // ユーザー情報を取得
-      const userInfo = await rp.getUserInfo(callbackResult.tokenResponse.access_token);
-      req.session.userInfo = userInfo;
-      
-      // ホームページにリダイレクト
-      res.redirect("/");
-    } catch (error) {
-      res.status(500).send(`エラーが発生しました: ${error.message}`);
-    }
-  });
 
-  // ホームページ
-  app.get("/", (req, res) => {
-    if (!req.session.userInfo) {
-      return res.redirect("/login");
-    }
-    
+  // ログイン・ログアウトのミドルウェア
+  // state・nonce・code_verifier とログイン後のトークンは暗号化した Cookie に保存される
+  const auth = createAuthMiddleware(
+    {
+      clientId: "your-client-id",
+      clientSecret: "your-client-secret",
+      redirectUri: "http://localhost:3000/callback",
+      issuer: "https://auth.example.com",
+      authorizationEndpoint: "https://auth.example.com/authorize",
+      tokenEndpoint: "https://auth.example.com/token",
+      userinfoEndpoint: "https://auth.example.com/userinfo",
+      jwksUri: "https://auth.example.com/jwks",
+      endSessionEndpoint: "https://auth.example.com/logout",
+      revocationEndpoint: "https://auth.example.com/revoke",
+      postLogoutRedirectUri: "http://localhost:3000/logged-out",
+    },
+    {
+      secret: "your-session-secret-at-least-32-characters",
+      cookie: { secure: false }, // ローカルの http で動かす場合のみ
+      fetchUserInfo: true,
+    },
+  );
+
+  // /login・/callback・/logout・/logged-out を処理し、req.oidc にユーザーを設定する
+  app.use(auth.handler);
+
+  // ホームページ（ログインしていない場合は /login?returnTo=/ にリダイレクトされる）
+  app.get("/", auth.requireAuth, (req, res) => {
+    const { user } = req.oidc;
     res.send(`
-      <h1>ようこそ、${req.session.userInfo.name || req.session.userInfo.sub}さん</h1>
-      <pre>${JSON.stringify(req.session.userInfo, null, 2)}</pre>
+      <h1>ようこそ、${user.name || user.sub}さん</h1>
+      <pre>${JSON.stringify(user, null, 2)}</pre>
       <a href="/logout">ログアウト</a>
     `);
   });
 
-  // ログアウトページ
-  app.get("/logout", (req, res) => {
-    req.session.destroy();
-    res.redirect("/");
+  // 認証エラー（state の不一致や OP のエラーなど）
+  app.use((error, req, res, next) => {
+    res.status(400).send(`認証エラー: ${error.message}`);
   });
 
   // サーバーの起動
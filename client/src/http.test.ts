@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NetworkError } from "./errors";
+import { sendRequest } from "./http";
+
+describe("sendRequest", () => {
+  const url = "https://auth.example.com/jwks";
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("指定したfetchの実装でリクエストする", async () => {
+    mockFetch.mockResolvedValueOnce(Response.json({ keys: [] }));
+
+    const response = await sendRequest(
+      url,
+      { headers: { Accept: "application/json" } },
+      { fetch: mockFetch },
+    );
+
+    expect(await response.json()).toEqual({ keys: [] });
+    expect(mockFetch).toHaveBeenCalledWith(url, {
+      headers: { Accept: "application/json" },
+    });
+  });
+
+  it("追加のヘッダーを付与する（リクエストのヘッダーを優先する）", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null));
+
+    await sendRequest(
+      url,
+      { headers: { Accept: "application/json" } },
+      {
+        fetch: mockFetch,
+        headers: { "User-Agent": "example-rp/1.0", Accept: "*/*" },
+      },
+    );
+
+    expect(mockFetch.mock.calls[0][1].headers).toEqual({
+      "User-Agent": "example-rp/1.0",
+      Accept: "application/json",
+    });
+  });
+
+  it("タイムアウトした場合はNetworkErrorをスローする", async () => {
+    mockFetch.mockImplementationOnce(
+      (_: string, init: RequestInit) =>
+        new Promise((_, reject) => {
+          init.signal?.addEventListener("abort", () =>
+            reject(init.signal?.reason),
+          );
+        }),
+    );
+
+    const error = await sendRequest(
+      url,
+      {},
+      { fetch: mockFetch, timeout: 10 },
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toBe(`Request to ${url} timed out after 10ms`);
+  });
+
+  it("呼び出し元が中止した場合はsignal.reasonをスローする", async () => {
+    const controller = new AbortController();
+    const reason = new Error("cancelled");
+    mockFetch.mockImplementationOnce(async () => {
+      controller.abort(reason);
+      throw new DOMException("aborted", "AbortError");
+    });
+
+    await expect(
+      sendRequest(
+        url,
+        { signal: controller.signal },
+        { fetch: mockFetch, timeout: 1000, retries: 2 },
+      ),
+    ).rejects.toBe(reason);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("GETはネットワークエラーと5xx・429の場合に再試行する", async () => {
+    mockFetch
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 429 }))
+      .mockResolvedValueOnce(Response.json({ keys: [] }));
+
+    const response = await sendRequest(
+      url,
+      {},
+      { fetch: mockFetch, retries: 3, retryDelay: 1 },
+    );
+
+    expect(response.status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("再試行の回数を超えた場合は最後のレスポンスを返す", async () => {
+    mockFetch.mockResolvedValue(new Response(null, { status: 502 }));
+
+    const response = await sendRequest(
+      url,
+      {},
+      { fetch: mockFetch, retries: 2, retryDelay: 1 },
+    );
+
+    expect(response.status).toBe(502);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("4xxの場合は再試行しない", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 401 }));
+
+    const response = await sendRequest(
+      url,
+      {},
+      { fetch: mockFetch, retries: 2, retryDelay: 1 },
+    );
+
+    expect(response.status).toBe(401);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("POSTは再試行しない", async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+    const response = await sendRequest(
+      "https://auth.example.com/token",
+      { method: "POST", body: "grant_type=authorization_code" },
+      { fetch: mockFetch, retries: 2, retryDelay: 1 },
+    );
+
+    expect(response.status).toBe(503);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("429の場合はRetry-Afterの秒数だけ待機して再試行する", async () => {
+    vi.useFakeTimers();
+    mockFetch
+      .mockResolvedValueOnce(
+        new Response(null, { status: 429, headers: { "Retry-After": "2" } }),
+      )
+      .mockResolvedValueOnce(Response.json({ keys: [] }));
+
+    const pending = sendRequest(
+      url,
+      {},
+      { fetch: mockFetch, retries: 1, retryDelay: 1 },
+    );
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await pending).status).toBe(200);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("試行ごとにリクエストの設定を生成する", async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValueOnce(Response.json({ access_token: "token" }));
+    let attempt = 0;
+
+    await sendRequest(
+      "https://auth.example.com/token",
+      () => ({ method: "POST", body: `attempt=${++attempt}` }),
+      { fetch: mockFetch, retries: 1, retryDelay: 1, retryable: true },
+    );
+
+    expect(mockFetch.mock.calls.map(([, init]) => init.body)).toEqual([
+      "attempt=1",
+      "attempt=2",
+    ]);
+  });
+
+  it("retryableを指定した場合はGETでも再試行しない", async () => {
+    mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+
+    await expect(
+      sendRequest(
+        url,
+        {},
+        { fetch: mockFetch, retries: 2, retryDelay: 1, retryable: false },
+      ),
+    ).rejects.toThrow(NetworkError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("試行ごとにフックを呼び出す", async () => {
+    const error = new TypeError("fetch failed");
+    const response = Response.json({ keys: [] });
+    mockFetch.mockRejectedValueOnce(error).mockResolvedValueOnce(response);
+    const beforeRequest = vi.fn();
+    const afterResponse = vi.fn();
+
+    await sendRequest(
+      url,
+      {},
+      {
+        fetch: mockFetch,
+        retries: 1,
+        retryDelay: 1,
+        beforeRequest,
+        afterResponse,
+      },
+    );
+
+    expect(beforeRequest.mock.calls).toEqual([
+      [{ url, init: {}, attempt: 1 }],
+      [{ url, init: {}, attempt: 2 }],
+    ]);
+    expect(afterResponse.mock.calls).toEqual([
+      [{ url, init: {}, attempt: 1, error, duration: expect.any(Number) }],
+      [{ url, init: {}, attempt: 2, response, duration: expect.any(Number) }],
+    ]);
+  });
+});
@@ -0,0 +1,283 @@
+/**
+ * OP へのHTTPリクエストの共通処理
+ */
+import {
+  BearerTokenError,
+  NetworkError,
+  OAuthError,
+  type OpenIDConnectError,
+  ProtocolError,
+  parseWWWAuthenticate,
+} from "./errors";
+
+// HTTP リクエストの設定（OpenIDConfiguration の http）
+export interface HttpOptions {
+  fetch?: typeof fetch; // fetch の実装（デフォルト: グローバルの fetch）
+  timeout?: number; // リクエストごとのタイムアウト（ミリ秒、デフォルト: なし）
+  retries?: number; // ネットワークエラーと 5xx・429 の場合の再試行回数（デフォルト: 0、再試行してよいリクエストのみ）
+  retryDelay?: number; // 初回の再試行までの待機時間（ミリ秒、再試行ごとに2倍にする。Retry-After ヘッダーがある場合はその値。デフォルト: 200）
+  headers?: Record<string, string>; // すべてのリクエストに追加するヘッダー
+  beforeRequest?: (request: HttpRequestInfo) => void | Promise<void>;
+  afterResponse?: (result: HttpResponseInfo) => void | Promise<void>;
+}
+
+// beforeRequest に渡すリクエストの情報
+export interface HttpRequestInfo {
+  url: string;
+  init: RequestInit;
+  attempt: number; // 試行回数（1 から始まる）
+}
+
+// afterResponse に渡す結果の情報（失敗した場合は response の代わりに error を設定する）
+export interface HttpResponseInfo extends HttpRequestInfo {
+  response?: Response;
+  error?: unknown;
+  duration: number; // 所要時間（ミリ秒）
+}
+
+// リクエストごとの設定
+export interface RequestOptions extends HttpOptions {
+  // 再試行してよいか（デフォルト: GET・HEAD の場合のみ）
+  // 認証コードの交換などの冪等でないリクエストは再試行しない
+  retryable?: boolean;
+}
+
+// 試行ごとにリクエストの設定を生成する（一度しか使用できない client_assertion・DPoP 証明を試行ごとに作り直す場合に使用する）
+export type RequestInitFactory = () => RequestInit | Promise<RequestInit>;
+
+/**
+ * リクエストを送信する
+ * タイムアウト・再試行・フックは options（OpenIDConfiguration の http）に従う
+ * @param url リクエスト先
+ * @param init リクエストの設定、または試行ごとにリクエストの設定を生成する関数
+ * @param options HTTP リクエストの設定
+ * @returns レスポンス（再試行しても 5xx・429 の場合はそのレスポンス）
+ * @throws NetworkError リクエストを送信できなかった場合、またはタイムアウトした場合（init.signal で中止された場合は signal.reason をスローする）
+ */
+export async function sendRequest(
+  url: string,
+  init: RequestInit | RequestInitFactory = {},
+  options: RequestOptions = {},
+): Promise<Response> {
+  const createInit = typeof init === "function" ? init : () => init;
+  const retryDelay = options.retryDelay ?? 200;
+
+  let retries = 0;
+  for (let attempt = 1; ; attempt++) {
+    const requestInit = await createInit();
+    if (attempt === 1) {
+      const method = (requestInit.method ?? "GET").toUpperCase();
+      const retryable = options.retryable ?? ["GET", "HEAD"].includes(method);
+      retries = retryable ? (options.retries ?? 0) : 0;
+    }
+
+    const canRetry = attempt <= retries;
+    const backoff = retryDelay * 2 ** (attempt - 1);
+    let response: Response;
+    try {
+      response = await sendOnce(url, requestInit, options, attempt);
+    } catch (error) {
+      if (!(error instanceof NetworkError) || !canRetry) {
+        throw error;
+      }
+      await sleep(backoff, requestInit.signal);
+      continue;
+    }
+
+    if (!canRetry || (response.status < 500 && response.status !== 429)) {
+      return response;
+    }
+    await response.body?.cancel();
+    await sleep(
+      parseRetryAfter(response.headers.get("Retry-After")) ?? backoff,
+      requestInit.signal,
+    );
+  }
+}
+
+/**
+ * Retry-After ヘッダー（RFC 9110 10.2.3）を待機時間に変換する
+ * @param value ヘッダーの値（秒数、または HTTP 日付）
+ * @returns 待機時間（ミリ秒、ヘッダーがない場合や不正な場合は undefined）
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * リクエストを1回送信する
+ * @param url リクエスト先
+ * @param init リクエストの設定
+ * @param options HTTP リクエストの設定
+ * @param attempt 試行回数
+ * @returns レスポンス
+ */
+async function sendOnce(
+  url: string,
+  init: RequestInit,
+  options: HttpOptions,
+  attempt: number,
+): Promise<Response> {
+  // 追加のヘッダーとタイムアウト（指定がない場合は init をそのまま使用する）
+  const requestInit: RequestInit = { ...init };
+  if (options.headers) {
+    requestInit.headers = {
+      ...options.headers,
+      ...(init.headers as Record<string, string> | undefined),
+    };
+  }
+  const timeoutSignal =
+    options.timeout !== undefined
+      ? AbortSignal.timeout(options.timeout)
+      : undefined;
+  if (timeoutSignal) {
+    requestInit.signal = init.signal
+      ? AbortSignal.any([init.signal, timeoutSignal])
+      : timeoutSignal;
+  }
+
+  const request = { url, init: requestInit, attempt };
+  await options.beforeRequest?.(request);
+
+  const fetchImpl = options.fetch ?? fetch;
+  const startedAt = Date.now();
+  try {
+    const response = await fetchImpl(url, requestInit);
+    await options.afterResponse?.({
+      ...request,
+      response,
+      duration: Date.now() - startedAt,
+    });
+    return response;
+  } catch (error) {
+    await options.afterResponse?.({
+      ...request,
+      error,
+      duration: Date.now() - startedAt,
+    });
+    if (init.signal?.aborted) {
+      throw init.signal.reason;
+    }
+    if (timeoutSignal?.aborted) {
+      throw new NetworkError(
+        `Request to ${url} timed out after ${options.timeout}ms`,
+        error,
+      );
+    }
+    throw new NetworkError(
+      `Request to ${url} failed: ${error instanceof Error ? error.message : String(error)}`,
+      error,
+    );
+  }
+}
+
+/**
+ * 指定した時間待機する
+ * @param ms 待機する時間（ミリ秒）
+ * @param signal 待機を中止する AbortSignal（中止された場合は signal.reason で reject する）
+ */
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * レスポンスの JSON オブジェクトを読み取る
+ * @param response レスポンス
+ * @param description リクエストの説明（エラーメッセージ用）
+ * @returns JSON オブジェクト
+ * @throws ProtocolError JSON オブジェクトでない場合
+ */
+export async function readJson<T>(
+  response: Response,
+  description: string,
+): Promise<T> {
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new ProtocolError(
+      `${description} response is not valid JSON`,
+      response.status,
+    );
+  }
+
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ProtocolError(
+      `${description} response is not a JSON object`,
+      response.status,
+    );
+  }
+  return body as T;
+}
+
+/**
+ * 失敗したレスポンスをエラーに変換する
+ * OAuth 2.0 のエラーレスポンスや WWW-Authenticate ヘッダーがあれば OAuthError、それ以外は ProtocolError とする
+ * @param response レスポンス
+ * @param description リクエストの説明（エラーメッセージ用）
+ * @returns エラー
+ */
+export async function toResponseError(
+  response: Response,
+  description: string,
+): Promise<OpenIDConnectError> {
+  // エラーレスポンス（RFC 6749 5.2）
+  try {
+    const body = (await response.json()) as Record<string, unknown>;
+    if (typeof body?.error === "string") {
+      return new OAuthError(
+        {
+          error: body.error,
+          error_description:
+            typeof body.error_description === "string"
+              ? body.error_description
+              : undefined,
+          error_uri:
+            typeof body.error_uri === "string" ? body.error_uri : undefined,
+        },
+        response.status,
+      );
+    }
+  } catch {
+    // JSON でない場合は WWW-Authenticate ヘッダーを確認する
+  }
+
+  // WWW-Authenticate ヘッダー（RFC 6750 3）
+  const wwwAuthenticate = response.headers.get("WWW-Authenticate");
+  const challenge = wwwAuthenticate
+    ? parseWWWAuthenticate(wwwAuthenticate)
+    : undefined;
+  if (challenge) {
+    return new BearerTokenError(
+      challenge.scheme,
+      challenge.parameters,
+      response.status,
+    );
+  }
+
+  return new ProtocolError(
+    `${description} failed: ${response.statusText}`,
+    response.status,
+  );
+}
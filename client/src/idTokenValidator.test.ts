@@ -0,0 +1,235 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  type IdTokenClaimsExpectation,
+  calculateTokenHash,
+  validateIdTokenClaims,
+} from "./idTokenValidator";
+import type { IDTokenPayload } from "./index";
+
+describe("idTokenValidator", () => {
+  const now = 1700000000;
+
+  // テスト用の検証条件
+  const expected: IdTokenClaimsExpectation = {
+    issuer: "https://auth.example.com",
+    clientId: "test-client-id",
+    alg: "RS256",
+    clockSkew: 60,
+    trustedAudiences: ["trusted-api"],
+    nonce: "test-nonce",
+    now,
+  };
+
+  // テスト用のペイロード
+  const payload: IDTokenPayload = {
+    iss: "https://auth.example.com",
+    sub: "user123",
+    aud: "test-client-id",
+    exp: now + 3600,
+    iat: now,
+    nonce: "test-nonce",
+  };
+
+  describe("calculateTokenHash", () => {
+    it("ハッシュ値の左半分をbase64urlエンコードする", async () => {
+      const expectedHash = createHash("sha256")
+        .update("test-access-token")
+        .digest()
+        .subarray(0, 16)
+        .toString("base64url");
+
+      expect(await calculateTokenHash("test-access-token", "RS256")).toBe(
+        expectedHash,
+      );
+    });
+
+    it("algに対応するハッシュ関数を使用する", async () => {
+      const expectedHash = createHash("sha512")
+        .update("test-code")
+        .digest()
+        .subarray(0, 32)
+        .toString("base64url");
+
+      expect(await calculateTokenHash("test-code", "EdDSA")).toBe(expectedHash);
+      expect(await calculateTokenHash("test-code", "ES512")).toBe(expectedHash);
+    });
+  });
+
+  describe("validateIdTokenClaims", () => {
+    it("有効なクレームを検証する", async () => {
+      expect(await validateIdTokenClaims(payload, expected)).toEqual({
+        valid: true,
+        payload,
+      });
+    });
+
+    it.each<[string, Partial<IDTokenPayload>, string]>([
+      ["必須クレームがない", { sub: undefined }, "missing_claim"],
+      [
+        "issが一致しない",
+        { iss: "https://auth.example.com/" },
+        "invalid_issuer",
+      ],
+      ["audにクライアントが含まれない", { aud: "other" }, "invalid_audience"],
+      [
+        "audに信頼していない値が含まれる",
+        { aud: ["test-client-id", "other"], azp: "test-client-id" },
+        "invalid_audience",
+      ],
+      [
+        "複数のaudでazpがない",
+        { aud: ["test-client-id", "trusted-api"] },
+        "invalid_azp",
+      ],
+      ["azpが一致しない", { azp: "other" }, "invalid_azp"],
+      ["有効期限切れ", { exp: now - 60 }, "expired"],
+      ["iatが未来", { iat: now + 61 }, "issued_in_future"],
+      ["nonceがない", { nonce: undefined }, "nonce_missing"],
+      ["nonceが一致しない", { nonce: "wrong-nonce" }, "nonce_mismatch"],
+    ])("%s場合は無効とする", async (_, override, reason) => {
+      const result = await validateIdTokenClaims(
+        { ...payload, ...override } as IDTokenPayload,
+        expected,
+      );
+
+      expect(result).toMatchObject({ valid: false, reason });
+    });
+
+    it("clockSkewの範囲内のずれは許容する", async () => {
+      const result = await validateIdTokenClaims(
+        { ...payload, exp: now - 59, iat: now + 60 },
+        expected,
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it("信頼するaudとazpがあれば複数のaudを許可する", async () => {
+      const result = await validateIdTokenClaims(
+        {
+          ...payload,
+          aud: ["test-client-id", "trusted-api"],
+          azp: "test-client-id",
+        },
+        expected,
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    it("nonceを送信していない場合はnonceクレームを要求しない", async () => {
+      const result = await validateIdTokenClaims(
+        { ...payload, nonce: undefined },
+        { ...expected, nonce: undefined },
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    describe("auth_time", () => {
+      it("max_ageを送信した場合はauth_timeを要求する", async () => {
+        const result = await validateIdTokenClaims(payload, {
+          ...expected,
+          maxAge: 300,
+        });
+
+        expect(result).toMatchObject({
+          valid: false,
+          reason: "auth_time_missing",
+        });
+      });
+
+      it("max_ageを超えて経過している場合は無効とする", async () => {
+        const result = await validateIdTokenClaims(
+          { ...payload, auth_time: now - 361 },
+          { ...expected, maxAge: 300 },
+        );
+
+        expect(result).toMatchObject({
+          valid: false,
+          reason: "auth_time_too_old",
+        });
+      });
+
+      it("max_age以内であれば有効とする", async () => {
+        const result = await validateIdTokenClaims(
+          { ...payload, auth_time: now - 360 },
+          { ...expected, maxAge: 300 },
+        );
+
+        expect(result.valid).toBe(true);
+      });
+    });
+
+    describe("at_hash / c_hash", () => {
+      it("一致する場合は有効とする", async () => {
+        const result = await validateIdTokenClaims(
+          {
+            ...payload,
+            at_hash: await calculateTokenHash("test-access-token", "RS256"),
+            c_hash: await calculateTokenHash("test-code", "RS256"),
+          },
+          { ...expected, accessToken: "test-access-token", code: "test-code" },
+        );
+
+        expect(result.valid).toBe(true);
+      });
+
+      it("必須の場合にat_hash/c_hashがなければ無効とする", async () => {
+        expect(
+          await validateIdTokenClaims(payload, {
+            ...expected,
+            accessToken: "test-access-token",
+            requireAtHash: true,
+          }),
+        ).toMatchObject({
+          valid: false,
+          reason: "missing_claim",
+          message: "at_hash is required",
+        });
+        expect(
+          await validateIdTokenClaims(payload, {
+            ...expected,
+            code: "test-code",
+            requireCHash: true,
+          }),
+        ).toMatchObject({
+          valid: false,
+          reason: "missing_claim",
+          message: "c_hash is required",
+        });
+      });
+
+      it("at_hashが一致しない場合は無効とする", async () => {
+        const result = await validateIdTokenClaims(
+          {
+            ...payload,
+            at_hash: await calculateTokenHash("other-token", "RS256"),
+          },
+          { ...expected, accessToken: "test-access-token" },
+        );
+
+        expect(result).toMatchObject({
+          valid: false,
+          reason: "at_hash_mismatch",
+        });
+      });
+
+      it("c_hashが一致しない場合は無効とする", async () => {
+        const result = await validateIdTokenClaims(
+          {
+            ...payload,
+            c_hash: await calculateTokenHash("other-code", "RS256"),
+          },
+          { ...expected, code: "test-code" },
+        );
+
+        expect(result).toMatchObject({
+          valid: false,
+          reason: "c_hash_mismatch",
+        });
+      });
+    });
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * IDトークンのクレーム検証（OpenID Connect Core 1.0 3.1.3.7 / 3.2.2.11 / 3.3.2.12）
+ */
+import { base64url } from "jose";
+import type { IDTokenPayload } from "./index";
+
+// 検証失敗の理由
+export type IdTokenValidationFailureReason =
+  | "malformed"
+  | "invalid_signature"
+  | "missing_claim"
+  | "invalid_issuer"
+  | "invalid_audience"
+  | "invalid_azp"
+  | "expired"
+  | "issued_in_future"
+  | "auth_time_missing"
+  | "auth_time_too_old"
+  | "nonce_missing"
+  | "nonce_mismatch"
+  | "at_hash_mismatch"
+  | "c_hash_mismatch";
+
+export type IdTokenValidationResult =
+  | {
+      valid: true;
+      payload: IDTokenPayload;
+    }
+  | {
+      valid: false;
+      reason: IdTokenValidationFailureReason;
+      message: string;
+      payload?: IDTokenPayload;
+    };
+
+// 認証リクエスト・レスポンスに由来する検証条件（AuthorizationTransaction をそのまま渡せる）
+export interface IdTokenValidationOptions {
+  nonce?: string;
+  maxAge?: number;
+  accessToken?: string; // 指定した場合は at_hash を検証する
+  code?: string; // 指定した場合は c_hash を検証する
+  requireAtHash?: boolean; // at_hash を必須とする（認可エンドポイントからアクセストークンと共に発行された場合）
+  requireCHash?: boolean; // c_hash を必須とする（認可エンドポイントから認証コードと共に発行された場合）
+}
+
+// RP の設定に由来する検証条件
+export interface IdTokenClaimsExpectation extends IdTokenValidationOptions {
+  issuer: string;
+  clientId: string;
+  alg: string; // JWS ヘッダーの alg（at_hash/c_hash の計算に使用）
+  clockSkew: number; // 許容する時刻のずれ（秒）
+  trustedAudiences?: string[]; // clientId 以外に許可する aud
+  now?: number; // 現在時刻（秒、テスト用）
+}
+
+// alg ごとの at_hash/c_hash の計算に使用するハッシュ関数
+const HASH_ALGORITHMS: Record<string, string> = {
+  RS256: "SHA-256",
+  PS256: "SHA-256",
+  ES256: "SHA-256",
+  RS384: "SHA-384",
+  PS384: "SHA-384",
+  ES384: "SHA-384",
+  RS512: "SHA-512",
+  PS512: "SHA-512",
+  ES512: "SHA-512",
+  EdDSA: "SHA-512", // Ed25519
+};
+
+/**
+ * at_hash / c_hash を計算する
+ * @param value アクセストークンまたは認証コード
+ * @param alg IDトークンの JWS ヘッダーの alg
+ * @returns ハッシュ値の左半分を base64url エンコードした文字列
+ */
+export async function calculateTokenHash(
+  value: string,
+  alg: string,
+): Promise<string> {
+  const hash = HASH_ALGORITHMS[alg];
+  if (!hash) {
+    throw new Error(`Unsupported algorithm for token hash: ${alg}`);
+  }
+
+  const digest = new Uint8Array(
+    await globalThis.crypto.subtle.digest(
+      hash,
+      new TextEncoder().encode(value),
+    ),
+  );
+  return base64url.encode(digest.slice(0, digest.length / 2));
+}
+
+/**
+ * 検証失敗の結果を生成する
+ */
+function failure(
+  reason: IdTokenValidationFailureReason,
+  message: string,
+  payload?: IDTokenPayload,
+): IdTokenValidationResult {
+  return { valid: false, reason, message, payload };
+}
+
+/**
+ * 署名検証済みのIDトークンのクレームを検証する
+ * @param payload IDトークンのペイロード
+ * @param expected 検証条件
+ * @returns 検証結果
+ */
+export async function validateIdTokenClaims(
+  payload: IDTokenPayload,
+  expected: IdTokenClaimsExpectation,
+): Promise<IdTokenValidationResult> {
+  const now = expected.now ?? Math.floor(Date.now() / 1000);
+  const skew = expected.clockSkew;
+
+  // 必須クレームの検証
+  if (
+    typeof payload.iss !== "string" ||
+    typeof payload.sub !== "string" ||
+    (typeof payload.aud !== "string" && !Array.isArray(payload.aud)) ||
+    typeof payload.exp !== "number" ||
+    typeof payload.iat !== "number"
+  ) {
+    return failure(
+      "missing_claim",
+      "ID Token must contain iss, sub, aud, exp and iat",
+      payload,
+    );
+  }
+
+  // 発行者の検証（完全一致）
+  if (payload.iss !== expected.issuer) {
+    return failure(
+      "invalid_issuer",
+      `Issuer mismatch: expected ${expected.issuer}, got ${payload.iss}`,
+      payload,
+    );
+  }
+
+  // 対象者の検証
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(expected.clientId)) {
+    return failure(
+      "invalid_audience",
+      "ID Token audience does not include the client",
+      payload,
+    );
+  }
+  const trusted = [expected.clientId, ...(expected.trustedAudiences ?? [])];
+  const untrusted = audiences.filter((aud) => !trusted.includes(aud));
+  if (untrusted.length > 0) {
+    return failure(
+      "invalid_audience",
+      `ID Token contains untrusted audiences: ${untrusted.join(", ")}`,
+      payload,
+    );
+  }
+
+  // 認可された関係者の検証（複数の aud がある場合は必須）
+  if (audiences.length > 1 && payload.azp === undefined) {
+    return failure(
+      "invalid_azp",
+      "azp is required when ID Token has multiple audiences",
+      payload,
+    );
+  }
+  if (payload.azp !== undefined && payload.azp !== expected.clientId) {
+    return failure(
+      "invalid_azp",
+      `azp mismatch: expected ${expected.clientId}, got ${payload.azp}`,
+      payload,
+    );
+  }
+
+  // 有効期限・発行日時の検証
+  if (payload.exp + skew <= now) {
+    return failure("expired", "ID Token has expired", payload);
+  }
+  if (payload.iat - skew > now) {
+    return failure(
+      "issued_in_future",
+      "ID Token is issued in the future",
+      payload,
+    );
+  }
+
+  // nonce の検証（認証リクエストで送信した場合は必須）
+  if (expected.nonce !== undefined) {
+    if (payload.nonce === undefined) {
+      return failure("nonce_missing", "nonce is missing", payload);
+    }
+    if (payload.nonce !== expected.nonce) {
+      return failure("nonce_mismatch", "nonce does not match", payload);
+    }
+  }
+
+  // auth_time の検証（max_age を送信した場合は必須）
+  if (expected.maxAge !== undefined) {
+    if (typeof payload.auth_time !== "number") {
+      return failure(
+        "auth_time_missing",
+        "auth_time is required when max_age is requested",
+        payload,
+      );
+    }
+    if (payload.auth_time + expected.maxAge + skew < now) {
+      return failure(
+        "auth_time_too_old",
+        "Too much time has elapsed since the last authentication",
+        payload,
+      );
+    }
+  }
+
+  // at_hash / c_hash の検証
+  if (expected.requireAtHash && payload.at_hash === undefined) {
+    return failure("missing_claim", "at_hash is required", payload);
+  }
+  if (expected.requireCHash && payload.c_hash === undefined) {
+    return failure("missing_claim", "c_hash is required", payload);
+  }
+  if (expected.accessToken !== undefined && payload.at_hash !== undefined) {
+    const atHash = await calculateTokenHash(expected.accessToken, expected.alg);
+    if (payload.at_hash !== atHash) {
+      return failure("at_hash_mismatch", "at_hash does not match", payload);
+    }
+  }
+  if (expected.code !== undefined && payload.c_hash !== undefined) {
+    const cHash = await calculateTokenHash(expected.code, expected.alg);
+    if (payload.c_hash !== cHash) {
+      return failure("c_hash_mismatch", "c_hash does not match", payload);
+    }
+  }
+
+  return { valid: true, payload };
+}
@@ -1,9 +1,39 @@
-import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  CompactEncrypt,
+  SignJWT,
+  base64url,
+  decodeJwt,
+  decodeProtectedHeader,
+  exportJWK,
+  generateKeyPair,
+  jwtVerify,
+} from "jose";
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import { clearProviderMetadataCache } from "./discovery";
+import { calculateTokenHash } from "./idTokenValidator";
 import OpenIDConnectRP, {
+  BearerTokenError,
+  DPoPSigner,
+  IdTokenValidationError,
+  MemoryTransactionStore,
+  NetworkError,
+  OAuthError,
+  ProtocolError,
+  StateMismatchError,
+  TOKEN_TYPES,
   type OpenIDConfiguration,
   type TokenResponse,
   type UserInfo,
 } from "./index";
+import { calculateCodeChallenge } from "./pkce";
 
 // モックの設定
 const mockFetch = vi.fn();
@@ -19,6 +49,7 @@ describe("OpenIDConnectRP", () => {
     clientId: "test-client-id",
     clientSecret: "test-client-secret",
     redirectUri: "https://example.com/callback",
+    issuer: "https://auth.example.com",
     authorizationEndpoint: "https://auth.example.com/authorize",
     tokenEndpoint: "https://auth.example.com/token",
     userinfoEndpoint: "https://auth.example.com/userinfo",
@@ -29,12 +60,44 @@ describe("OpenIDConnectRP", () => {
     nonce: "test-nonce",
   };
 
+  // テスト用の署名鍵
+  let privateKey: CryptoKey;
+  let publicJwk: Record<string, unknown>;
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair("RS256");
+    privateKey = keyPair.privateKey;
+    publicJwk = { ...(await exportJWK(keyPair.publicKey)), kid: "test-key" };
+  });
+
   // テスト用のIDトークン
-  const createIdToken = (payload: Record<string, unknown>) => {
-    const header = { alg: "HS256", typ: "JWT" };
-    const encodedHeader = global.btoa(JSON.stringify(header));
-    const encodedPayload = global.btoa(JSON.stringify(payload));
-    return `${encodedHeader}.${encodedPayload}.signature`;
+  const createIdToken = (payload: Record<string, unknown>) =>
+    new SignJWT(payload)
+      .setProtectedHeader({ alg: "RS256", typ: "JWT", kid: "test-key" })
+      .sign(privateKey);
+
+  // JWKS エンドポイントのモック
+  const mockJwksResponse = () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ keys: [publicJwk] }),
+    });
+  };
+
+  // トークンレスポンスのIDトークンを生成する
+  const createTokenEndpointIdToken = async (
+    claims: Record<string, unknown> = {},
+  ) => {
+    const now = Math.floor(Date.now() / 1000);
+    return createIdToken({
+      iss: "https://auth.example.com",
+      sub: "user123",
+      aud: "test-client-id",
+      exp: now + 3600,
+      iat: now,
+      nonce: "test-nonce",
+      ...claims,
+    });
   };
 
   beforeEach(() => {
@@ -86,12 +149,267 @@ describe("OpenIDConnectRP", () => {
       expect(rpAny.config.responseType).toBe("code");
       expect(rpAny.config.scope).toBe("openid profile email");
     });
+
+    it("clientSecretがない場合はPKCEを無効にできない", () => {
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...config,
+            clientSecret: undefined,
+            usePkce: false,
+          }),
+      ).toThrow("PKCE is required for public clients");
+    });
+
+    it("サポートしていないresponseTypeの場合はエラーをスローする", () => {
+      expect(
+        () => new OpenIDConnectRP({ ...config, responseType: "token" }),
+      ).toThrow("Unsupported responseType: token");
+      expect(
+        () => new OpenIDConnectRP({ ...config, responseType: "id_token code" }),
+      ).not.toThrow();
+    });
+
+    it("クライアント認証に必要な設定がない場合はエラーをスローする", () => {
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...config,
+            clientSecret: undefined,
+            tokenEndpointAuthMethod: "client_secret_basic",
+          }),
+      ).toThrow("clientSecret is required for client_secret_basic");
+
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...config,
+            tokenEndpointAuthMethod: "private_key_jwt",
+          }),
+      ).toThrow("privateKey is required for private_key_jwt");
+    });
+
+    it("OPがサポートしていない設定の場合はエラーをスローする", () => {
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...config,
+            responseType: "id_token",
+            responseTypesSupported: ["code"],
+          }),
+      ).toThrow('responseType "id_token" is not supported by the provider');
+
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...config,
+            responseMode: "form_post",
+            responseModesSupported: ["query", "fragment"],
+          }),
+      ).toThrow('responseMode "form_post" is not supported by the provider');
+
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...config,
+            tokenEndpointAuthMethodsSupported: ["private_key_jwt"],
+          }),
+      ).toThrow(
+        'tokenEndpointAuthMethod "client_secret_post" is not supported by the provider',
+      );
+
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...config,
+            codeChallengeMethodsSupported: ["plain"],
+          }),
+      ).toThrow('codeChallengeMethod "S256" is not supported by the provider');
+    });
+  });
+
+  describe("discover", () => {
+    const metadata = {
+      issuer: "https://auth.example.com",
+      authorization_endpoint: "https://auth.example.com/authorize",
+      token_endpoint: "https://auth.example.com/token",
+      userinfo_endpoint: "https://auth.example.com/userinfo",
+      jwks_uri: "https://auth.example.com/jwks",
+      end_session_endpoint: "https://auth.example.com/logout",
+      response_types_supported: ["code", "id_token"],
+      response_modes_supported: ["query", "fragment"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+      token_endpoint_auth_methods_supported: ["client_secret_post"],
+    };
+
+    beforeEach(() => {
+      clearProviderMetadataCache();
+    });
+
+    it("DiscoveryメタデータからRPを生成する", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => metadata,
+      });
+
+      const rp = await OpenIDConnectRP.discover("https://auth.example.com", {
+        clientId: "test-client-id",
+        clientSecret: "test-client-secret",
+        redirectUri: "https://example.com/callback",
+      });
+
+      // privateプロパティにアクセスするためにキャスト
+      const rpAny = rp as unknown as { config: OpenIDConfiguration };
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        "https://auth.example.com/.well-known/openid-configuration",
+        { headers: { Accept: "application/json" } },
+      );
+      expect(rpAny.config).toMatchObject({
+        issuer: "https://auth.example.com",
+        authorizationEndpoint: "https://auth.example.com/authorize",
+        tokenEndpoint: "https://auth.example.com/token",
+        userinfoEndpoint: "https://auth.example.com/userinfo",
+        jwksUri: "https://auth.example.com/jwks",
+        endSessionEndpoint: "https://auth.example.com/logout",
+        responseTypesSupported: ["code", "id_token"],
+        responseModesSupported: ["query", "fragment"],
+        idTokenSigningAlgValuesSupported: ["RS256"],
+        tokenEndpointAuthMethodsSupported: ["client_secret_post"],
+      });
+    });
+
+    it("OPがサポートしていない設定を拒否する", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => metadata,
+      });
+
+      await expect(
+        OpenIDConnectRP.discover("https://auth.example.com", {
+          clientId: "test-client-id",
+          clientSecret: "test-client-secret",
+          redirectUri: "https://example.com/callback",
+          responseMode: "form_post",
+        }),
+      ).rejects.toThrow(
+        'responseMode "form_post" is not supported by the provider',
+      );
+    });
+  });
+
+  describe("register", () => {
+    const metadata = {
+      issuer: "https://auth.example.com",
+      authorization_endpoint: "https://auth.example.com/authorize",
+      token_endpoint: "https://auth.example.com/token",
+      jwks_uri: "https://auth.example.com/jwks",
+      registration_endpoint: "https://auth.example.com/register",
+      response_types_supported: ["code"],
+      subject_types_supported: ["public"],
+      id_token_signing_alg_values_supported: ["RS256"],
+    };
+
+    beforeEach(() => {
+      clearProviderMetadataCache();
+    });
+
+    it("クライアントを登録してRPの設定を生成する", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json(metadata));
+      mockFetch.mockResolvedValueOnce(
+        Response.json(
+          {
+            client_id: "registered-client",
+            client_secret: "registered-secret",
+            redirect_uris: ["https://example.com/callback"],
+            token_endpoint_auth_method: "client_secret_basic",
+            registration_access_token: "registration-access-token",
+            registration_client_uri:
+              "https://auth.example.com/register/registered-client",
+          },
+          { status: 201 },
+        ),
+      );
+
+      const { configuration, registration } = await OpenIDConnectRP.register(
+        "https://auth.example.com",
+        {
+          redirect_uris: ["https://example.com/callback"],
+          token_endpoint_auth_method: "client_secret_basic",
+        },
+        { initialAccessToken: "initial-access-token" },
+      );
+
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        "https://auth.example.com/register",
+      );
+      expect(configuration).toMatchObject({
+        issuer: "https://auth.example.com",
+        authorizationEndpoint: "https://auth.example.com/authorize",
+        tokenEndpoint: "https://auth.example.com/token",
+        clientId: "registered-client",
+        clientSecret: "registered-secret",
+        redirectUri: "https://example.com/callback",
+        tokenEndpointAuthMethod: "client_secret_basic",
+      });
+      expect(registration.registration_access_token).toBe(
+        "registration-access-token",
+      );
+      expect(() => new OpenIDConnectRP(configuration)).not.toThrow();
+    });
+
+    it("token_endpoint_auth_methodが省略された場合はclient_secret_basicで認証する", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json(metadata));
+      mockFetch.mockResolvedValueOnce(
+        Response.json(
+          {
+            client_id: "registered-client",
+            client_secret: "registered-secret",
+            redirect_uris: ["https://example.com/callback"],
+          },
+          { status: 201 },
+        ),
+      );
+
+      const { configuration } = await OpenIDConnectRP.register(
+        "https://auth.example.com",
+        { redirect_uris: ["https://example.com/callback"] },
+      );
+
+      expect(configuration.tokenEndpointAuthMethod).toBe("client_secret_basic");
+
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ access_token: "token", token_type: "Bearer" }),
+      );
+      await new OpenIDConnectRP(configuration).getToken("test-code");
+
+      const [, init] = mockFetch.mock.calls[2];
+      expect(init.headers.Authorization).toBe(
+        `Basic ${btoa("registered-client:registered-secret")}`,
+      );
+      expect(new URLSearchParams(init.body).has("client_secret")).toBe(false);
+    });
+
+    it("登録エンドポイントがない場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ ...metadata, registration_endpoint: undefined }),
+      );
+
+      await expect(
+        OpenIDConnectRP.register("https://auth.example.com", {
+          redirect_uris: ["https://example.com/callback"],
+        }),
+      ).rejects.toThrow(
+        "registration_endpoint is missing in provider metadata",
+      );
+    });
   });
 
   describe("generateAuthorizationUrl", () => {
-    it("正しい認証リクエストURLを生成する", () => {
+    it("正しい認証リクエストURLを生成する", async () => {
       const rp = new OpenIDConnectRP(config);
-      const url = rp.generateAuthorizationUrl();
+      const url = await rp.generateAuthorizationUrl();
 
       // URLをパースして検証
       const parsedUrl = new URL(url);
@@ -107,9 +425,11 @@ describe("OpenIDConnectRP", () => {
       expect(params.get("scope")).toBe(config.scope);
       expect(params.get("state")).toBe(config.state);
       expect(params.get("nonce")).toBe(config.nonce);
+      expect(params.get("code_challenge")).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(params.get("code_challenge_method")).toBe("S256");
     });
 
-    it("任意パラメータを含む認証リクエストURLを生成する", () => {
+    it("任意パラメータを含む認証リクエストURLを生成する", async () => {
       const configWithOptionalParams: OpenIDConfiguration = {
         ...config,
         responseMode: "form_post",
@@ -123,7 +443,7 @@ describe("OpenIDConnectRP", () => {
       };
 
       const rp = new OpenIDConnectRP(configWithOptionalParams);
-      const url = rp.generateAuthorizationUrl();
+      const url = await rp.generateAuthorizationUrl();
 
       // URLをパースして検証
       const parsedUrl = new URL(url);
@@ -145,6 +465,281 @@ describe("OpenIDConnectRP", () => {
       expect(params.get("login_hint")).toBe(configWithOptionalParams.loginHint);
       expect(params.get("acr_values")).toBe(configWithOptionalParams.acrValues);
     });
+
+    it("PKCEを無効にした場合はcode_challengeを含めない", async () => {
+      const rp = new OpenIDConnectRP({ ...config, usePkce: false });
+      const url = await rp.generateAuthorizationUrl();
+
+      const params = new URL(url).searchParams;
+      expect(params.has("code_challenge")).toBe(false);
+      expect(params.has("code_challenge_method")).toBe(false);
+    });
+
+    it("明示的に指定した場合はplainを使用する", async () => {
+      const rp = new OpenIDConnectRP({
+        ...config,
+        codeChallengeMethod: "plain",
+      });
+      const url = await rp.generateAuthorizationUrl();
+
+      const params = new URL(url).searchParams;
+      expect(params.get("code_challenge_method")).toBe("plain");
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: "token", token_type: "Bearer" }),
+      });
+      await rp.handleCallback(
+        `https://example.com/callback?code=test-code&state=${config.state}`,
+      );
+      const requestBody = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(requestBody.get("code_verifier")).toBe(
+        params.get("code_challenge"),
+      );
+    });
+
+    it("リクエストごとに異なるcode_verifierを生成する", async () => {
+      const rp = new OpenIDConnectRP(config);
+      const url1 = new URL(await rp.generateAuthorizationUrl());
+      const url2 = new URL(await rp.generateAuthorizationUrl());
+
+      expect(url1.searchParams.get("code_challenge")).not.toBe(
+        url2.searchParams.get("code_challenge"),
+      );
+    });
+  });
+
+  describe("claimsパラメータとリクエストオブジェクト", () => {
+    const claims = {
+      userinfo: {
+        email: { essential: true },
+        picture: null,
+      },
+      id_token: {
+        acr: { values: ["urn:mace:incommon:iap:silver"] },
+        sub: { value: "user123" },
+      },
+    };
+
+    // テスト用の署名鍵
+    let rpKeyPair: CryptoKeyPair;
+    let rpConfig: OpenIDConfiguration;
+
+    beforeAll(async () => {
+      rpKeyPair = await generateKeyPair("ES256", { extractable: true });
+      rpConfig = {
+        ...config,
+        privateKey: {
+          ...(await exportJWK(rpKeyPair.privateKey)),
+          alg: "ES256",
+        },
+        requestObject: "value",
+      };
+    });
+
+    it("claimsパラメータを送信する", async () => {
+      const rp = new OpenIDConnectRP({ ...config, claims });
+      const url = new URL(await rp.generateAuthorizationUrl());
+
+      expect(JSON.parse(url.searchParams.get("claims") ?? "")).toEqual(claims);
+
+      // 認証リクエストごとに上書きできる
+      const overridden = new URL(
+        await rp.generateAuthorizationUrl({
+          claims: { id_token: { auth_time: { essential: true } } },
+        }),
+      );
+      expect(JSON.parse(overridden.searchParams.get("claims") ?? "")).toEqual({
+        id_token: { auth_time: { essential: true } },
+      });
+    });
+
+    it("認証リクエストのパラメータをリクエストオブジェクトで送信する", async () => {
+      const rp = new OpenIDConnectRP({ ...rpConfig, claims });
+      const url = new URL(await rp.generateAuthorizationUrl());
+
+      expect([...url.searchParams.keys()]).toEqual([
+        "client_id",
+        "response_type",
+        "scope",
+        "request",
+      ]);
+      const { payload } = await jwtVerify(
+        url.searchParams.get("request") ?? "",
+        rpKeyPair.publicKey,
+        { issuer: config.clientId, audience: config.issuer },
+      );
+      expect(payload).toMatchObject({
+        client_id: config.clientId,
+        redirect_uri: config.redirectUri,
+        state: config.state,
+        nonce: config.nonce,
+        code_challenge_method: "S256",
+        claims,
+      });
+    });
+
+    it("参照渡しの場合は公開したリクエストオブジェクトのURLを送信する", async () => {
+      const published: string[] = [];
+      const rp = new OpenIDConnectRP({
+        ...rpConfig,
+        requestObject: "reference",
+        publishRequestObject: async (requestObject) => {
+          published.push(requestObject);
+          return "https://example.com/request-objects/1";
+        },
+      });
+      const url = new URL(await rp.generateAuthorizationUrl());
+
+      expect(url.searchParams.get("request_uri")).toBe(
+        "https://example.com/request-objects/1",
+      );
+      expect(url.searchParams.has("request")).toBe(false);
+      expect(published).toHaveLength(1);
+    });
+
+    it("PARの場合はリクエストオブジェクトをPARエンドポイントに送信する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ request_uri: "urn:example:request-1", expires_in: 60 }),
+      );
+
+      const rp = new OpenIDConnectRP({
+        ...rpConfig,
+        pushedAuthorizationRequestEndpoint: "https://auth.example.com/par",
+      });
+      const url = new URL(await rp.generatePushedAuthorizationUrl());
+
+      expect(url.searchParams.get("request_uri")).toBe("urn:example:request-1");
+      const requestBody = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(requestBody.get("request")).toEqual(expect.any(String));
+      expect(requestBody.has("state")).toBe(false);
+    });
+
+    it("リクエストオブジェクトに必要な設定がない場合はエラーをスローする", () => {
+      expect(
+        () => new OpenIDConnectRP({ ...config, requestObject: "value" }),
+      ).toThrow("privateKey is required to sign request objects");
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...rpConfig,
+            requestObject: "reference",
+          }),
+      ).toThrow(
+        "publishRequestObject is required when requestObject is reference",
+      );
+    });
+  });
+
+  describe("generatePushedAuthorizationUrl", () => {
+    const parConfig: OpenIDConfiguration = {
+      ...config,
+      pushedAuthorizationRequestEndpoint: "https://auth.example.com/par",
+    };
+
+    it("認証リクエストのパラメータをPARエンドポイントに送信する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json(
+          { request_uri: "urn:example:request-1", expires_in: 60 },
+          { status: 201 },
+        ),
+      );
+
+      const rp = new OpenIDConnectRP({
+        ...parConfig,
+        loginHint: "user@example.com",
+      });
+      const url = new URL(await rp.generatePushedAuthorizationUrl());
+
+      // フロントチャネルには client_id と request_uri のみを含める
+      expect(`${url.origin}${url.pathname}`).toBe(config.authorizationEndpoint);
+      expect(Object.fromEntries(url.searchParams)).toEqual({
+        client_id: config.clientId,
+        request_uri: "urn:example:request-1",
+      });
+
+      const [endpoint, init] = mockFetch.mock.calls[0];
+      expect(endpoint).toBe("https://auth.example.com/par");
+      expect(init.method).toBe("POST");
+      const requestBody = new URLSearchParams(init.body);
+      expect(requestBody.get("redirect_uri")).toBe(config.redirectUri);
+      expect(requestBody.get("state")).toBe(config.state);
+      expect(requestBody.get("login_hint")).toBe("user@example.com");
+      expect(requestBody.get("code_challenge")).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(requestBody.get("client_secret")).toBe(config.clientSecret);
+    });
+
+    it("送信したstateでコールバックを処理できる", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ request_uri: "urn:example:request-1", expires_in: 60 }),
+      );
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          access_token: "token",
+          token_type: "Bearer",
+          id_token: await createTokenEndpointIdToken(),
+        }),
+      );
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP(parConfig);
+      await rp.generatePushedAuthorizationUrl({ redirectTo: "/dashboard" });
+      const result = await rp.handleCallback(
+        `https://example.com/callback?code=test-code&state=${config.state}`,
+      );
+
+      expect(result.transaction?.redirectTo).toBe("/dashboard");
+      expect(result.tokenResponse?.access_token).toBe("token");
+    });
+
+    it("requirePushedAuthorizationRequestsの場合はgenerateAuthorizationUrlでもPARを使用する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ request_uri: "urn:example:request-1", expires_in: 60 }),
+      );
+
+      const rp = new OpenIDConnectRP({
+        ...parConfig,
+        requirePushedAuthorizationRequests: true,
+      });
+      const url = new URL(await rp.generateAuthorizationUrl());
+
+      expect(url.searchParams.get("request_uri")).toBe("urn:example:request-1");
+      expect(url.searchParams.has("state")).toBe(false);
+    });
+
+    it("PARエンドポイントがエラーを返した場合はトランザクションを保存しない", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ error: "invalid_request" }, { status: 400 }),
+      );
+
+      const rp = new OpenIDConnectRP(parConfig);
+      await expect(rp.generatePushedAuthorizationUrl()).rejects.toBeInstanceOf(
+        OAuthError,
+      );
+      expect(
+        (
+          await rp.handleCallback(
+            `https://example.com/callback?code=test-code&state=${config.state}`,
+          )
+        ).error,
+      ).toBeInstanceOf(StateMismatchError);
+    });
+
+    it("PARエンドポイントがない場合はエラーをスローする", async () => {
+      const rp = new OpenIDConnectRP(config);
+      await expect(rp.generatePushedAuthorizationUrl()).rejects.toThrow(
+        "pushedAuthorizationRequestEndpoint is not configured",
+      );
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...config,
+            requirePushedAuthorizationRequests: true,
+          }),
+      ).toThrow(
+        "pushedAuthorizationRequestEndpoint is required when requirePushedAuthorizationRequests is enabled",
+      );
+    });
   });
 
   describe("getToken", () => {
@@ -191,10 +786,9 @@ describe("OpenIDConnectRP", () => {
 
     it("トークンリクエストが失敗した場合はエラーをスローする", async () => {
       // fetchのモック
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        statusText: "Unauthorized",
-      });
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { status: 401, statusText: "Unauthorized" }),
+      );
 
       const rp = new OpenIDConnectRP(config);
 
@@ -203,10 +797,140 @@ describe("OpenIDConnectRP", () => {
         "Token request failed: Unauthorized",
       );
     });
+
+    it("OAuthのエラーレスポンスをOAuthErrorとしてスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json(
+          {
+            error: "invalid_grant",
+            error_description: "Code has expired",
+            error_uri: "https://auth.example.com/errors/invalid_grant",
+          },
+          { status: 400, statusText: "Bad Request" },
+        ),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      const error = await rp.getToken("test-code").catch((e) => e);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error).toMatchObject({
+        error: "invalid_grant",
+        errorDescription: "Code has expired",
+        errorUri: "https://auth.example.com/errors/invalid_grant",
+        status: 400,
+      });
+    });
+
+    it("ネットワークエラーをNetworkErrorとしてスローする", async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError("fetch failed"));
+
+      const rp = new OpenIDConnectRP(config);
+      const error = await rp.getToken("test-code").catch((e) => e);
+
+      expect(error).toBeInstanceOf(NetworkError);
+      expect(error.message).toBe(
+        "Request to https://auth.example.com/token failed: fetch failed",
+      );
+      expect(error.cause).toBeInstanceOf(TypeError);
+    });
+
+    it("不正なトークンレスポンスをProtocolErrorとしてスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response("<html></html>", { status: 200 }),
+      );
+      mockFetch.mockResolvedValueOnce(Response.json({ token_type: "Bearer" }));
+
+      const rp = new OpenIDConnectRP(config);
+
+      await expect(rp.getToken("test-code")).rejects.toThrow(
+        new ProtocolError("Token request response is not valid JSON", 200),
+      );
+      await expect(rp.getToken("test-code")).rejects.toThrow(
+        new ProtocolError(
+          "Token request response does not contain access_token and token_type",
+          200,
+        ),
+      );
+    });
+
+    it("code_verifierを送信する", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: "token", token_type: "Bearer" }),
+      });
+
+      const rp = new OpenIDConnectRP({ ...config, clientSecret: undefined });
+      await rp.getToken("test-code", "test-code-verifier");
+
+      const requestBody = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(requestBody.get("code_verifier")).toBe("test-code-verifier");
+      expect(requestBody.has("client_secret")).toBe(false);
+    });
+
+    it("client_secret_basicの場合はAuthorizationヘッダーで認証する", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: "token", token_type: "Bearer" }),
+      });
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        tokenEndpointAuthMethod: "client_secret_basic",
+      });
+      await rp.getToken("test-code");
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers.Authorization).toBe(
+        `Basic ${btoa("test-client-id:test-client-secret")}`,
+      );
+      expect(new URLSearchParams(init.body).has("client_secret")).toBe(false);
+    });
+
+    it("private_key_jwtの場合は署名したclient_assertionを送信する", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: "token", token_type: "Bearer" }),
+      });
+
+      const keyPair = await generateKeyPair("ES256", { extractable: true });
+      const rp = new OpenIDConnectRP({
+        ...config,
+        clientSecret: undefined,
+        tokenEndpointAuthMethod: "private_key_jwt",
+        privateKey: { ...(await exportJWK(keyPair.privateKey)), alg: "ES256" },
+        usePkce: false,
+      });
+      await rp.refreshToken("test-refresh-token");
+
+      const requestBody = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(requestBody.get("client_assertion_type")).toBe(
+        "urn:ietf:params:oauth:client-assertion-type:jwt-bearer",
+      );
+      const { payload } = await jwtVerify(
+        requestBody.get("client_assertion") ?? "",
+        keyPair.publicKey,
+        { audience: config.tokenEndpoint },
+      );
+      expect(payload).toMatchObject({
+        iss: config.clientId,
+        sub: config.clientId,
+      });
+      expect(requestBody.has("client_secret")).toBe(false);
+    });
+
+    it("パブリッククライアントでcode_verifierがない場合はエラーをスローする", async () => {
+      const rp = new OpenIDConnectRP({ ...config, clientSecret: undefined });
+
+      await expect(rp.getToken("test-code")).rejects.toThrow(
+        "code_verifier is required for public clients",
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
   });
 
   describe("validateIdToken", () => {
-    it("有効なIDトークンを検証する", () => {
+    it("有効なIDトークンを検証する", async () => {
       const now = Math.floor(Date.now() / 1000);
       const payload = {
         iss: "https://auth.example.com",
@@ -217,15 +941,16 @@ describe("OpenIDConnectRP", () => {
         nonce: "test-nonce",
       };
 
-      const idToken = createIdToken(payload);
+      const idToken = await createIdToken(payload);
+      mockJwksResponse();
 
       const rp = new OpenIDConnectRP(config);
-      const isValid = rp.validateIdToken(idToken);
+      const result = await rp.validateIdToken(idToken);
 
-      expect(isValid).toBe(true);
+      expect(result).toEqual({ valid: true, payload });
     });
 
-    it("有効期限切れのIDトークンを検証する", () => {
+    it("有効期限切れのIDトークンを検証する", async () => {
       const now = Math.floor(Date.now() / 1000);
       const payload = {
         iss: "https://auth.example.com",
@@ -236,15 +961,16 @@ describe("OpenIDConnectRP", () => {
         nonce: "test-nonce",
       };
 
-      const idToken = createIdToken(payload);
+      const idToken = await createIdToken(payload);
+      mockJwksResponse();
 
       const rp = new OpenIDConnectRP(config);
-      const isValid = rp.validateIdToken(idToken);
+      const result = await rp.validateIdToken(idToken);
 
-      expect(isValid).toBe(false);
+      expect(result).toMatchObject({ valid: false, reason: "expired" });
     });
 
-    it("不正なaudを持つIDトークンを検証する", () => {
+    it("不正なaudを持つIDトークンを検証する", async () => {
       const now = Math.floor(Date.now() / 1000);
       const payload = {
         iss: "https://auth.example.com",
@@ -255,15 +981,19 @@ describe("OpenIDConnectRP", () => {
         nonce: "test-nonce",
       };
 
-      const idToken = createIdToken(payload);
+      const idToken = await createIdToken(payload);
+      mockJwksResponse();
 
       const rp = new OpenIDConnectRP(config);
-      const isValid = rp.validateIdToken(idToken);
+      const result = await rp.validateIdToken(idToken);
 
-      expect(isValid).toBe(false);
+      expect(result).toMatchObject({
+        valid: false,
+        reason: "invalid_audience",
+      });
     });
 
-    it("不正なnonceを持つIDトークンを検証する", () => {
+    it("不正なnonceを持つIDトークンを検証する", async () => {
       const now = Math.floor(Date.now() / 1000);
       const payload = {
         iss: "https://auth.example.com",
@@ -274,35 +1004,188 @@ describe("OpenIDConnectRP", () => {
         nonce: "wrong-nonce", // 不正なnonce
       };
 
-      const idToken = createIdToken(payload);
+      const idToken = await createIdToken(payload);
+      mockJwksResponse();
 
       const rp = new OpenIDConnectRP(config);
-      const isValid = rp.validateIdToken(idToken);
+      const result = await rp.validateIdToken(idToken);
 
-      expect(isValid).toBe(false);
+      expect(result).toMatchObject({ valid: false, reason: "nonce_mismatch" });
     });
-  });
 
-  describe("getUserInfo", () => {
-    it("アクセストークンを使用してユーザー情報を取得する", async () => {
-      const userInfo: UserInfo = {
+    it("引数で指定したnonceと照合する", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await createIdToken({
+        iss: "https://auth.example.com",
         sub: "user123",
-        name: "Test User",
-        email: "user@example.com",
-        email_verified: true,
-      };
-
-      // fetchのモック
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => userInfo,
+        aud: "test-client-id",
+        exp: now + 3600,
+        iat: now,
+        nonce: "transaction-nonce",
       });
+      mockJwksResponse();
 
       const rp = new OpenIDConnectRP(config);
-      const result = await rp.getUserInfo("test-access-token");
 
-      // fetchが正しく呼び出されたか検証
-      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(
+        await rp.validateIdToken(idToken, { nonce: "transaction-nonce" }),
+      ).toMatchObject({ valid: true });
+      expect(
+        await rp.validateIdToken(idToken, { nonce: "other-nonce" }),
+      ).toMatchObject({ valid: false, reason: "nonce_mismatch" });
+    });
+
+    it("JWKSの取得先は設定された jwksUri である", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await createIdToken({
+        iss: "https://auth.example.com",
+        sub: "user123",
+        aud: "test-client-id",
+        exp: now + 3600,
+        iat: now,
+        nonce: "test-nonce",
+      });
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP(config);
+      expect(await rp.validateIdToken(idToken)).toMatchObject({ valid: true });
+      expect(await rp.validateIdToken(idToken)).toMatchObject({ valid: true });
+
+      // JWK Set はキャッシュされ、一度だけ取得される
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe(config.jwksUri);
+    });
+
+    it("署名が改ざんされたIDトークンを検証する", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await createIdToken({
+        iss: "https://auth.example.com",
+        sub: "user123",
+        aud: "test-client-id",
+        exp: now + 3600,
+        iat: now,
+        nonce: "test-nonce",
+      });
+      const [header, , signature] = idToken.split(".");
+      const forgedPayload = Buffer.from(
+        JSON.stringify({ sub: "attacker", aud: "test-client-id" }),
+      ).toString("base64url");
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.validateIdToken(
+        `${header}.${forgedPayload}.${signature}`,
+      );
+
+      expect(result).toMatchObject({
+        valid: false,
+        reason: "invalid_signature",
+      });
+    });
+
+    it("OPがサポートしていないアルゴリズムのIDトークンを無効とする", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await createIdToken({
+        iss: "https://auth.example.com",
+        sub: "user123",
+        aud: "test-client-id",
+        exp: now + 3600,
+        iat: now,
+        nonce: "test-nonce",
+      });
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        idTokenSigningAlgValuesSupported: ["ES256"],
+      });
+      const result = await rp.validateIdToken(idToken);
+
+      expect(result).toEqual({
+        valid: false,
+        reason: "invalid_signature",
+        message: "JWS algorithm not allowed: RS256",
+      });
+    });
+
+    it("jwksUriが設定されていない場合は無効とする", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await createIdToken({
+        iss: "https://auth.example.com",
+        sub: "user123",
+        aud: "test-client-id",
+        exp: now + 3600,
+        iat: now,
+      });
+
+      const rp = new OpenIDConnectRP({ ...config, jwksUri: undefined });
+      const result = await rp.validateIdToken(idToken);
+
+      expect(result).toEqual({
+        valid: false,
+        reason: "invalid_signature",
+        message: "jwksUri is not configured",
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("issuerが設定されていない場合は無効とする", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await createIdToken({
+        iss: "https://auth.example.com",
+        sub: "user123",
+        aud: "test-client-id",
+        exp: now + 3600,
+        iat: now,
+        nonce: "test-nonce",
+      });
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP({ ...config, issuer: undefined });
+      const result = await rp.validateIdToken(idToken);
+
+      expect(result).toMatchObject({
+        valid: false,
+        reason: "invalid_issuer",
+        message: "issuer is not configured",
+      });
+    });
+
+    it("設定されたclockSkewの範囲内であれば有効とする", async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await createIdToken({
+        iss: "https://auth.example.com",
+        sub: "user123",
+        aud: "test-client-id",
+        exp: now - 100,
+        iat: now - 3700,
+        nonce: "test-nonce",
+      });
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP({ ...config, clockSkew: 300 });
+
+      expect(await rp.validateIdToken(idToken)).toMatchObject({ valid: true });
+    });
+  });
+
+  describe("getUserInfo", () => {
+    it("アクセストークンを使用してユーザー情報を取得する", async () => {
+      const userInfo: UserInfo = {
+        sub: "user123",
+        name: "Test User",
+        email: "user@example.com",
+        email_verified: true,
+      };
+
+      // fetchのモック
+      mockFetch.mockResolvedValueOnce(Response.json(userInfo));
+
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.getUserInfo("test-access-token");
+
+      // fetchが正しく呼び出されたか検証
+      expect(mockFetch).toHaveBeenCalledTimes(1);
       expect(mockFetch).toHaveBeenCalledWith(config.userinfoEndpoint, {
         headers: {
           Authorization: "Bearer test-access-token",
@@ -327,10 +1210,9 @@ describe("OpenIDConnectRP", () => {
 
     it("ユーザー情報リクエストが失敗した場合はエラーをスローする", async () => {
       // fetchのモック
-      mockFetch.mockResolvedValueOnce({
-        ok: false,
-        statusText: "Unauthorized",
-      });
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { status: 401, statusText: "Unauthorized" }),
+      );
 
       const rp = new OpenIDConnectRP(config);
 
@@ -339,16 +1221,266 @@ describe("OpenIDConnectRP", () => {
         "UserInfo request failed: Unauthorized",
       );
     });
+
+    it("WWW-Authenticateヘッダーのエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, {
+          status: 401,
+          statusText: "Unauthorized",
+          headers: {
+            "WWW-Authenticate":
+              'Bearer realm="example", error="invalid_token", error_description="The access token expired"',
+          },
+        }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      const error = await rp.getUserInfo("test-access-token").catch((e) => e);
+
+      expect(error).toBeInstanceOf(BearerTokenError);
+      expect(error).toMatchObject({
+        scheme: "Bearer",
+        error: "invalid_token",
+        errorDescription: "The access token expired",
+        status: 401,
+        parameters: { realm: "example" },
+      });
+    });
+
+    it("POSTでユーザー情報を取得する", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json({ sub: "user123" }));
+
+      const rp = new OpenIDConnectRP(config);
+      await rp.getUserInfo("test-access-token", { method: "POST" });
+
+      expect(mockFetch).toHaveBeenCalledWith(config.userinfoEndpoint, {
+        method: "POST",
+        headers: {
+          Authorization: "Bearer test-access-token",
+        },
+      });
+    });
+
+    it("IDトークンのsubと一致しない場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json({ sub: "other-user" }));
+
+      const rp = new OpenIDConnectRP(config);
+
+      await expect(
+        rp.getUserInfo("test-access-token", { expectedSubject: "user123" }),
+      ).rejects.toThrow(
+        "UserInfo sub mismatch: expected user123, got other-user",
+      );
+    });
+
+    it("resolveClaimsを指定した場合は集約クレームを統合する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          sub: "user123",
+          _claim_names: { groups: "src1" },
+          _claim_sources: {
+            src1: {
+              JWT: await createIdToken({
+                iss: "https://auth.example.com",
+                groups: ["admin"],
+              }),
+            },
+          },
+        }),
+      );
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.getUserInfo("test-access-token", {
+        resolveClaims: true,
+      });
+
+      expect(result).toEqual({ sub: "user123", groups: ["admin"] });
+      expect(mockFetch).toHaveBeenLastCalledWith(config.jwksUri, {
+        headers: { Accept: "application/json" },
+      });
+    });
+
+    it("trustedClaimsIssuersに含まれない発行者の集約クレームはDiscoveryせずに拒否する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          sub: "user123",
+          _claim_names: { groups: "src1" },
+          _claim_sources: {
+            src1: {
+              JWT: await createIdToken({
+                iss: "https://evil.example.com",
+                groups: ["admin"],
+              }),
+            },
+          },
+        }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+
+      await expect(
+        rp.getUserInfo("test-access-token", { resolveClaims: true }),
+      ).rejects.toThrow(
+        "Claims JWT issuer is not trusted: https://evil.example.com",
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("集約クレームでsubを上書きするレスポンスは拒否する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          sub: "user123",
+          _claim_names: { sub: "src1" },
+          _claim_sources: {
+            src1: {
+              JWT: await createIdToken({
+                iss: "https://auth.example.com",
+                sub: "attacker",
+              }),
+            },
+          },
+        }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+
+      await expect(
+        rp.getUserInfo("test-access-token", {
+          expectedSubject: "user123",
+          resolveClaims: true,
+        }),
+      ).rejects.toThrow("_claim_names must not contain sub");
+    });
+
+    describe("JWT形式のレスポンス", () => {
+      const userInfoClaims = {
+        iss: "https://auth.example.com",
+        aud: "test-client-id",
+        sub: "user123",
+        name: "Test User",
+      };
+
+      // application/jwt のレスポンス
+      const jwtResponse = (body: string) =>
+        new Response(body, { headers: { "Content-Type": "application/jwt" } });
+
+      // RP の暗号化用の鍵
+      let encryptionPublicKey: CryptoKey;
+      let decryptionJwk: Record<string, unknown>;
+
+      beforeAll(async () => {
+        const keyPair = await generateKeyPair("RSA-OAEP-256", {
+          extractable: true,
+        });
+        encryptionPublicKey = keyPair.publicKey;
+        decryptionJwk = {
+          ...(await exportJWK(keyPair.privateKey)),
+          alg: "RSA-OAEP-256",
+        };
+      });
+
+      // JWT を RP の公開鍵で暗号化する
+      const encrypt = (plaintext: string, cty?: string) =>
+        new CompactEncrypt(new TextEncoder().encode(plaintext))
+          .setProtectedHeader({ alg: "RSA-OAEP-256", enc: "A256GCM", cty })
+          .encrypt(encryptionPublicKey);
+
+      it("署名されたレスポンスを検証する", async () => {
+        mockFetch.mockResolvedValueOnce(
+          jwtResponse(await createIdToken(userInfoClaims)),
+        );
+        mockJwksResponse();
+
+        const rp = new OpenIDConnectRP(config);
+        const result = await rp.getUserInfo("test-access-token", {
+          expectedSubject: "user123",
+        });
+
+        expect(result).toEqual(userInfoClaims);
+      });
+
+      it("署名後に暗号化されたレスポンスを復号して検証する", async () => {
+        mockFetch.mockResolvedValueOnce(
+          jwtResponse(
+            await encrypt(await createIdToken(userInfoClaims), "JWT"),
+          ),
+        );
+        mockJwksResponse();
+
+        const rp = new OpenIDConnectRP({
+          ...config,
+          userinfoDecryptionKey: decryptionJwk,
+        });
+        const result = await rp.getUserInfo("test-access-token");
+
+        expect(result).toEqual(userInfoClaims);
+      });
+
+      it("暗号化のみのレスポンスを復号する", async () => {
+        mockFetch.mockResolvedValueOnce(
+          jwtResponse(await encrypt(JSON.stringify({ sub: "user123" }))),
+        );
+
+        const rp = new OpenIDConnectRP({
+          ...config,
+          userinfoDecryptionKey: decryptionJwk,
+        });
+        const result = await rp.getUserInfo("test-access-token");
+
+        expect(result).toEqual({ sub: "user123" });
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+
+      it("userinfoDecryptionKeyがない場合は暗号化されたレスポンスを拒否する", async () => {
+        mockFetch.mockResolvedValueOnce(
+          jwtResponse(
+            await encrypt(await createIdToken(userInfoClaims), "JWT"),
+          ),
+        );
+
+        const rp = new OpenIDConnectRP(config);
+
+        await expect(rp.getUserInfo("test-access-token")).rejects.toThrow(
+          "UserInfo response is encrypted, but userinfoDecryptionKey is not configured",
+        );
+      });
+
+      it.each<[string, Record<string, unknown>, string]>([
+        [
+          "発行者が異なる",
+          { iss: "https://evil.example.com" },
+          "UserInfo response issuer mismatch: expected https://auth.example.com, got https://evil.example.com",
+        ],
+        [
+          "対象者にクライアントを含まない",
+          { aud: "other-client" },
+          "UserInfo response audience does not include the client",
+        ],
+      ])("%s場合は拒否する", async (_, claims, message) => {
+        mockFetch.mockResolvedValueOnce(
+          jwtResponse(await createIdToken({ ...userInfoClaims, ...claims })),
+        );
+        mockJwksResponse();
+
+        const rp = new OpenIDConnectRP(config);
+        const error = await rp.getUserInfo("test-access-token").catch((e) => e);
+
+        expect(error).toBeInstanceOf(ProtocolError);
+        expect(error.message).toBe(message);
+      });
+    });
   });
 
   describe("handleCallback", () => {
     it("認証コードを含むコールバックを処理する", async () => {
+      const idToken = await createTokenEndpointIdToken();
       const tokenResponse: TokenResponse = {
         access_token: "test-access-token",
         token_type: "Bearer",
         refresh_token: "test-refresh-token",
         expires_in: 3600,
-        id_token: "test-id-token",
+        id_token: idToken,
       };
 
       // fetchのモック
@@ -356,13 +1488,87 @@ describe("OpenIDConnectRP", () => {
         ok: true,
         json: async () => tokenResponse,
       });
+      mockJwksResponse();
 
       const rp = new OpenIDConnectRP(config);
+      await rp.generateAuthorizationUrl({ redirectTo: "/dashboard" });
       const callbackUrl = `https://example.com/callback?code=test-code&state=${config.state}`;
       const result = await rp.handleCallback(callbackUrl);
 
       // 結果を検証
-      expect(result).toEqual({ tokenResponse });
+      expect(result).toEqual({
+        tokenResponse,
+        idToken,
+        idTokenClaims: expect.objectContaining({ sub: "user123" }),
+        transaction: {
+          state: config.state,
+          nonce: config.nonce,
+          codeVerifier: expect.any(String),
+          redirectTo: "/dashboard",
+          maxAge: undefined,
+          createdAt: expect.any(Number),
+        },
+      });
+    });
+
+    it("トークンレスポンスのIDトークンのnonceが一致しない場合は拒否する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          access_token: "test-access-token",
+          token_type: "Bearer",
+          id_token: await createTokenEndpointIdToken({ nonce: "other-nonce" }),
+        }),
+      );
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP(config);
+      await rp.generateAuthorizationUrl();
+      const result = await rp.handleCallback(
+        `https://example.com/callback?code=test-code&state=${config.state}`,
+      );
+
+      expect(result.error).toBeInstanceOf(IdTokenValidationError);
+      expect(result.idToken).toBeUndefined();
+      expect(result.tokenResponse).toBeUndefined();
+    });
+
+    it("トークンレスポンスにIDトークンがない場合は拒否する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          access_token: "test-access-token",
+          token_type: "Bearer",
+        }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      await rp.generateAuthorizationUrl();
+      const result = await rp.handleCallback(
+        `https://example.com/callback?code=test-code&state=${config.state}`,
+      );
+
+      expect(result.error).toBeInstanceOf(ProtocolError);
+      expect(result.error?.message).toBe(
+        "Token response does not contain an ID Token",
+      );
+      expect(result.tokenResponse).toBeUndefined();
+    });
+
+    it("認証リクエストのcode_verifierをトークンリクエストに引き継ぐ", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ access_token: "token", token_type: "Bearer" }),
+      });
+
+      const rp = new OpenIDConnectRP({ ...config, clientSecret: undefined });
+      const authUrl = new URL(await rp.generateAuthorizationUrl());
+      const callbackUrl = `https://example.com/callback?code=test-code&state=${config.state}`;
+      await rp.handleCallback(callbackUrl);
+
+      const requestBody = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      const codeVerifier = requestBody.get("code_verifier") ?? "";
+      expect(await calculateCodeChallenge(codeVerifier)).toBe(
+        authUrl.searchParams.get("code_challenge"),
+      );
     });
 
     it("エラーを含むコールバックを処理する", async () => {
@@ -372,9 +1578,11 @@ describe("OpenIDConnectRP", () => {
       const result = await rp.handleCallback(callbackUrl);
 
       // 結果を検証
-      expect(result).toEqual({
+      expect(result.error).toBeInstanceOf(OAuthError);
+      expect(result.error).toMatchObject({
         error: "access_denied",
         errorDescription: "User denied access",
+        message: "access_denied: User denied access",
       });
     });
 
@@ -385,79 +1593,1665 @@ describe("OpenIDConnectRP", () => {
       const result = await rp.handleCallback(callbackUrl);
 
       // 結果を検証
-      expect(result).toEqual({
-        error: "invalid_state",
-        errorDescription: "State parameter does not match",
-      });
+      expect(result.error).toBeInstanceOf(StateMismatchError);
+      expect(result.error?.message).toBe("State parameter does not match");
     });
 
-    it("認証コードがないコールバックを処理する", async () => {
-      const rp = new OpenIDConnectRP(config);
-      const callbackUrl = `https://example.com/callback?state=${config.state}`;
-      const result = await rp.handleCallback(callbackUrl);
-
-      // 結果を検証
-      expect(result).toEqual({
-        error: "invalid_response",
-        errorDescription: "Authorization code is missing",
+    describe("iss パラメータ（RFC 9207）", () => {
+      it("発行者が一致する場合は処理を続ける", async () => {
+        mockFetch.mockResolvedValueOnce(
+          Response.json({
+            access_token: "token",
+            token_type: "Bearer",
+            id_token: await createTokenEndpointIdToken(),
+          }),
+        );
+        mockJwksResponse();
+
+        const rp = new OpenIDConnectRP(config);
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          `https://example.com/callback?code=test-code&state=${config.state}&iss=${encodeURIComponent(config.issuer as string)}`,
+        );
+
+        expect(result.error).toBeUndefined();
+        expect(result.tokenResponse?.access_token).toBe("token");
       });
-    });
-  });
-
-  describe("refreshToken", () => {
-    it("リフレッシュトークンを使用して新しいトークンを取得する", async () => {
-      const tokenResponse: TokenResponse = {
-        access_token: "new-access-token",
-        token_type: "Bearer",
-        refresh_token: "new-refresh-token",
-        expires_in: 3600,
-        id_token: "new-id-token",
-      };
 
-      // fetchのモック
-      mockFetch.mockResolvedValueOnce({
-        ok: true,
-        json: async () => tokenResponse,
+      it("発行者が異なる場合はトランザクションを使用せずに拒否する", async () => {
+        const rp = new OpenIDConnectRP(config);
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          `https://example.com/callback?code=test-code&state=${config.state}&iss=https%3A%2F%2Fevil.example.com`,
+        );
+
+        expect(result.error).toBeInstanceOf(ProtocolError);
+        expect(result.error?.message).toBe(
+          "Authorization response issuer mismatch: expected https://auth.example.com, got https://evil.example.com",
+        );
+        expect(result.transaction).toBeUndefined();
+        expect(mockFetch).not.toHaveBeenCalled();
       });
 
-      const rp = new OpenIDConnectRP(config);
-      const result = await rp.refreshToken("test-refresh-token");
+      it("エラーレスポンスの発行者も検証する", async () => {
+        const rp = new OpenIDConnectRP(config);
+        const result = await rp.handleCallback(
+          "https://example.com/callback?error=access_denied&iss=https%3A%2F%2Fevil.example.com",
+        );
 
-      // fetchが正しく呼び出されたか検証
-      expect(mockFetch).toHaveBeenCalledTimes(1);
-      expect(mockFetch).toHaveBeenCalledWith(config.tokenEndpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: expect.any(String),
+        expect(result.error).toBeInstanceOf(ProtocolError);
+        expect(result.error).not.toBeInstanceOf(OAuthError);
       });
 
-      // リクエストボディを検証
-      const callArgs = mockFetch.mock.calls[0];
-      const requestBody = new URLSearchParams(callArgs[1].body);
-      expect(requestBody.get("grant_type")).toBe("refresh_token");
-      expect(requestBody.get("refresh_token")).toBe("test-refresh-token");
-      expect(requestBody.get("client_id")).toBe(config.clientId);
-      expect(requestBody.get("client_secret")).toBe(config.clientSecret);
-
-      // 結果を検証
-      expect(result).toEqual(tokenResponse);
+      it("OP が iss パラメータをサポートする場合は iss がないレスポンスを拒否する", async () => {
+        const rp = new OpenIDConnectRP({
+          ...config,
+          authorizationResponseIssParameterSupported: true,
+        });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          `https://example.com/callback?code=test-code&state=${config.state}`,
+        );
+
+        expect(result.error).toBeInstanceOf(ProtocolError);
+        expect(result.error?.message).toBe(
+          "Authorization response does not contain iss",
+        );
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
     });
 
-    it("トークンリフレッシュが失敗した場合はエラーをスローする", async () => {
-      // fetchのモック
+    it("同じstateのコールバックは一度だけ処理する", async () => {
       mockFetch.mockResolvedValueOnce({
-        ok: false,
-        statusText: "Unauthorized",
+        ok: true,
+        json: async () => ({
+          access_token: "token",
+          token_type: "Bearer",
+          id_token: await createTokenEndpointIdToken(),
+        }),
       });
+      mockJwksResponse();
 
       const rp = new OpenIDConnectRP(config);
+      await rp.generateAuthorizationUrl();
+      const callbackUrl = `https://example.com/callback?code=test-code&state=${config.state}`;
 
-      // エラーがスローされることを検証
-      await expect(rp.refreshToken("test-refresh-token")).rejects.toThrow(
+      expect(
+        (await rp.handleCallback(callbackUrl)).tokenResponse,
+      ).toBeDefined();
+      expect((await rp.handleCallback(callbackUrl)).error).toBeInstanceOf(
+        StateMismatchError,
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(2); // トークン・JWKS
+    });
+
+    it("複数の認証リクエストを並行して処理する", async () => {
+      const rp = new OpenIDConnectRP({
+        ...config,
+        state: undefined,
+        nonce: undefined,
+      });
+      const url1 = new URL(await rp.generateAuthorizationUrl());
+      const url2 = new URL(await rp.generateAuthorizationUrl());
+      const state1 = url1.searchParams.get("state");
+      const state2 = url2.searchParams.get("state");
+      expect(state1).not.toBe(state2);
+
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ access_token: "token", token_type: "Bearer" }),
+      });
+      const result2 = await rp.handleCallback(
+        `https://example.com/callback?code=code2&state=${state2}`,
+      );
+      const result1 = await rp.handleCallback(
+        `https://example.com/callback?code=code1&state=${state1}`,
+      );
+
+      expect(result1.transaction?.nonce).toBe(url1.searchParams.get("nonce"));
+      expect(result2.transaction?.nonce).toBe(url2.searchParams.get("nonce"));
+    });
+
+    it("有効期限切れのトランザクションを拒否する", async () => {
+      const rp = new OpenIDConnectRP({
+        ...config,
+        transactionStore: new MemoryTransactionStore({ ttl: 0 }),
+      });
+      await rp.generateAuthorizationUrl();
+      const callbackUrl = `https://example.com/callback?code=test-code&state=${config.state}`;
+
+      expect((await rp.handleCallback(callbackUrl)).error).toBeInstanceOf(
+        StateMismatchError,
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("トークンリクエストのエラーを返す", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ error: "invalid_grant" }, { status: 400 }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      await rp.generateAuthorizationUrl();
+      const callbackUrl = `https://example.com/callback?code=test-code&state=${config.state}`;
+      const result = await rp.handleCallback(callbackUrl);
+
+      expect(result.error).toBeInstanceOf(OAuthError);
+      expect(result.error).toMatchObject({ error: "invalid_grant" });
+    });
+
+    describe("response_mode", () => {
+      let tokenResponse: TokenResponse;
+
+      beforeEach(async () => {
+        tokenResponse = {
+          access_token: "test-access-token",
+          token_type: "Bearer",
+          id_token: await createTokenEndpointIdToken(),
+        };
+        mockFetch.mockImplementation(async (url: string) =>
+          Response.json(
+            url === config.jwksUri ? { keys: [publicJwk] } : tokenResponse,
+          ),
+        );
+      });
+
+      it.each([
+        ["オブジェクト", { code: "test-code", state: "test-state" }],
+        [
+          "URLSearchParams",
+          new URLSearchParams({ code: "test-code", state: "test-state" }),
+        ],
+      ])("form_postのリクエストボディ（%s）を処理する", async (_, body) => {
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseMode: "form_post",
+        });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(body);
+
+        expect(result.tokenResponse).toEqual(tokenResponse);
+      });
+
+      it.each([
+        "https://example.com/callback#code=test-code&state=test-state",
+        "#code=test-code&state=test-state",
+      ])("fragmentのレスポンス（%s）を処理する", async (input) => {
+        const rp = new OpenIDConnectRP({ ...config, responseMode: "fragment" });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(input);
+
+        expect(result.tokenResponse).toEqual(tokenResponse);
+      });
+
+      it.each<[string, OpenIDConfiguration, string | Record<string, string>]>([
+        [
+          "queryなのにフラグメントで受け取った",
+          config,
+          "https://example.com/callback#code=test-code&state=test-state",
+        ],
+        [
+          "queryなのにPOSTボディで受け取った",
+          config,
+          { code: "test-code", state: "test-state" },
+        ],
+        [
+          "fragmentなのにクエリで受け取った",
+          { ...config, responseMode: "fragment" },
+          "https://example.com/callback?code=test-code&state=test-state",
+        ],
+        [
+          "form_postなのにクエリで受け取った",
+          { ...config, responseMode: "form_post" },
+          "https://example.com/callback?code=test-code&state=test-state",
+        ],
+      ])("%s場合は拒否する", async (_, rpConfig, input) => {
+        const rp = new OpenIDConnectRP(rpConfig);
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(input);
+
+        expect(result.error).toBeInstanceOf(ProtocolError);
+        expect(result.error?.message).toMatch(
+          /^Authorization response was received via .+, but response_mode is .+$/,
+        );
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+
+      it("response_typeにトークンを含む場合はfragmentをデフォルトとする", async () => {
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseType: "code id_token",
+        });
+        const result = await rp.handleCallback(
+          "https://example.com/callback?code=test-code&state=test-state",
+        );
+
+        expect(result.error?.message).toBe(
+          "Authorization response was received via query, but response_mode is fragment",
+        );
+      });
+    });
+
+    describe("JWT形式の認証レスポンス（JARM）", () => {
+      let tokenResponse: TokenResponse;
+
+      beforeEach(async () => {
+        tokenResponse = {
+          access_token: "test-access-token",
+          token_type: "Bearer",
+          id_token: await createTokenEndpointIdToken(),
+        };
+      });
+
+      // 認証レスポンスの JWT を生成する
+      const createResponseJwt = (claims: Record<string, unknown> = {}) => {
+        const now = Math.floor(Date.now() / 1000);
+        return createIdToken({
+          iss: "https://auth.example.com",
+          aud: "test-client-id",
+          exp: now + 600,
+          code: "test-code",
+          state: "test-state",
+          ...claims,
+        });
+      };
+
+      it("JWTを検証し、含まれる認証コードでトークンを取得する", async () => {
+        mockJwksResponse();
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => tokenResponse,
+        });
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseMode: "query.jwt",
+        });
+        await rp.generateAuthorizationUrl();
+        const response = await createResponseJwt();
+        const result = await rp.handleCallback(
+          `https://example.com/callback?response=${response}`,
+        );
+
+        expect(result.error).toBeUndefined();
+        expect(result.tokenResponse).toEqual(tokenResponse);
+        const requestBody = new URLSearchParams(
+          mockFetch.mock.calls[1][1].body,
+        );
+        expect(requestBody.get("code")).toBe("test-code");
+      });
+
+      it.each<[string, OpenIDConfiguration, string | Record<string, string>]>([
+        [
+          "jwt（response_type のデフォルト: query）",
+          { ...config, responseMode: "jwt" },
+          "https://example.com/callback?response=",
+        ],
+        [
+          "fragment.jwt",
+          { ...config, responseMode: "fragment.jwt" },
+          "#response=",
+        ],
+        ["form_post.jwt", { ...config, responseMode: "form_post.jwt" }, {}],
+      ])("%sの経路で受け取る", async (_, rpConfig, input) => {
+        mockJwksResponse();
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => tokenResponse,
+        });
+        const rp = new OpenIDConnectRP(rpConfig);
+        await rp.generateAuthorizationUrl();
+        const response = await createResponseJwt();
+        const result = await rp.handleCallback(
+          typeof input === "string" ? `${input}${response}` : { response },
+        );
+
+        expect(result.tokenResponse).toEqual(tokenResponse);
+      });
+
+      it("JWTに含まれるエラーレスポンスを返す", async () => {
+        mockJwksResponse();
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseMode: "query.jwt",
+        });
+        await rp.generateAuthorizationUrl();
+        const response = await createResponseJwt({
+          code: undefined,
+          error: "access_denied",
+          error_description: "User denied access",
+        });
+        const result = await rp.handleCallback(
+          `https://example.com/callback?response=${response}`,
+        );
+
+        expect(result.error).toBeInstanceOf(OAuthError);
+        expect((result.error as OAuthError).error).toBe("access_denied");
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+
+      it.each<[string, Record<string, unknown>, string]>([
+        [
+          "発行者が異なる",
+          { iss: "https://evil.example.com" },
+          "Authorization response issuer mismatch: expected https://auth.example.com, got https://evil.example.com",
+        ],
+        [
+          "対象者にクライアントを含まない",
+          { aud: "other-client" },
+          "Authorization response audience does not include the client",
+        ],
+        [
+          "有効期限が切れている",
+          { exp: Math.floor(Date.now() / 1000) - 120 },
+          "Authorization response has expired",
+        ],
+      ])("%s場合は拒否する", async (_, claims, message) => {
+        mockJwksResponse();
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseMode: "query.jwt",
+        });
+        await rp.generateAuthorizationUrl();
+        const response = await createResponseJwt(claims);
+        const result = await rp.handleCallback(
+          `https://example.com/callback?response=${response}`,
+        );
+
+        expect(result.error).toBeInstanceOf(ProtocolError);
+        expect(result.error?.message).toBe(message);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+      });
+
+      it("署名が不正な場合は拒否する", async () => {
+        mockJwksResponse();
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseMode: "query.jwt",
+        });
+        await rp.generateAuthorizationUrl();
+        const otherKey = (await generateKeyPair("RS256")).privateKey;
+        const response = await new SignJWT({
+          iss: "https://auth.example.com",
+          aud: "test-client-id",
+          exp: Math.floor(Date.now() / 1000) + 600,
+          code: "test-code",
+          state: "test-state",
+        })
+          .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+          .sign(otherKey);
+        const result = await rp.handleCallback(
+          `https://example.com/callback?response=${response}`,
+        );
+
+        expect(result.error).toBeInstanceOf(ProtocolError);
+        expect(result.error?.message).toMatch(
+          /^Authorization response JWT verification failed: /,
+        );
+      });
+
+      it("responseパラメータがない場合は拒否する", async () => {
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseMode: "query.jwt",
+        });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          "https://example.com/callback?code=test-code&state=test-state",
+        );
+
+        expect(result.error?.message).toBe(
+          "Authorization response does not contain response",
+        );
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+    });
+
+    describe("ハイブリッドフロー・インプリシットフロー", () => {
+      // 認証レスポンスのIDトークンを生成する
+      const createFrontChannelIdToken = async (
+        claims: Record<string, unknown> = {},
+      ) => {
+        const now = Math.floor(Date.now() / 1000);
+        return createIdToken({
+          iss: "https://auth.example.com",
+          sub: "user123",
+          aud: "test-client-id",
+          exp: now + 3600,
+          iat: now,
+          nonce: "test-nonce",
+          ...claims,
+        });
+      };
+
+      it("id_tokenのレスポンスを処理する", async () => {
+        const idToken = await createFrontChannelIdToken();
+        mockJwksResponse();
+
+        const rp = new OpenIDConnectRP({ ...config, responseType: "id_token" });
+        const authUrl = new URL(await rp.generateAuthorizationUrl());
+        const result = await rp.handleCallback(
+          `https://example.com/callback#id_token=${idToken}&state=test-state`,
+        );
+
+        expect(authUrl.searchParams.has("code_challenge")).toBe(false);
+        expect(result.error).toBeUndefined();
+        expect(result.tokenResponse).toBeUndefined();
+        expect(result.idToken).toBe(idToken);
+        expect(result.idTokenClaims?.sub).toBe("user123");
+        expect(mockFetch).toHaveBeenCalledTimes(1); // JWKS のみ
+      });
+
+      it("id_token tokenのレスポンスのトークンを返す", async () => {
+        const idToken = await createFrontChannelIdToken({
+          at_hash: await calculateTokenHash("front-access-token", "RS256"),
+        });
+        mockJwksResponse();
+
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseType: "id_token token",
+        });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          `#id_token=${idToken}&access_token=front-access-token&token_type=Bearer&expires_in=3600&state=test-state`,
+        );
+
+        expect(result.tokenResponse).toEqual({
+          access_token: "front-access-token",
+          token_type: "Bearer",
+          expires_in: 3600,
+          id_token: idToken,
+        });
+        expect(result.idTokenClaims?.sub).toBe("user123");
+      });
+
+      it("at_hashがない場合は拒否する", async () => {
+        const idToken = await createFrontChannelIdToken();
+        mockJwksResponse();
+
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseType: "id_token token",
+        });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          `#id_token=${idToken}&access_token=front-access-token&token_type=Bearer&state=test-state`,
+        );
+
+        expect(result.error).toBeInstanceOf(IdTokenValidationError);
+        expect(result.error).toMatchObject({ reason: "missing_claim" });
+        expect(result.tokenResponse).toBeUndefined();
+      });
+
+      it("code id_tokenのレスポンスのc_hashを検証して認証コードを交換する", async () => {
+        const idToken = await createFrontChannelIdToken({
+          c_hash: await calculateTokenHash("test-code", "RS256"),
+        });
+        const backChannelIdToken = await createFrontChannelIdToken();
+        mockJwksResponse();
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            access_token: "test-access-token",
+            token_type: "Bearer",
+            id_token: backChannelIdToken,
+          }),
+        });
+
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseType: "code id_token",
+        });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          `#code=test-code&id_token=${idToken}&state=test-state`,
+        );
+
+        expect(result.error).toBeUndefined();
+        expect(result.tokenResponse?.access_token).toBe("test-access-token");
+        expect(result.idToken).toBe(backChannelIdToken);
+        expect(mockFetch.mock.calls[1][0]).toBe(config.tokenEndpoint);
+      });
+
+      it("c_hashが一致しない場合は認証コードを交換しない", async () => {
+        const idToken = await createFrontChannelIdToken({
+          c_hash: await calculateTokenHash("other-code", "RS256"),
+        });
+        mockJwksResponse();
+
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseType: "code id_token",
+        });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          `#code=test-code&id_token=${idToken}&state=test-state`,
+        );
+
+        expect(result.error).toBeInstanceOf(IdTokenValidationError);
+        expect(result.error).toMatchObject({ reason: "c_hash_mismatch" });
+        expect(mockFetch).toHaveBeenCalledTimes(1); // JWKS のみ
+      });
+
+      it("トークンレスポンスのIDトークンのsubが異なる場合は拒否する", async () => {
+        const idToken = await createFrontChannelIdToken({
+          c_hash: await calculateTokenHash("test-code", "RS256"),
+        });
+        const backChannelIdToken = await createFrontChannelIdToken({
+          sub: "other-user",
+        });
+        mockJwksResponse();
+        mockFetch.mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            access_token: "test-access-token",
+            token_type: "Bearer",
+            id_token: backChannelIdToken,
+          }),
+        });
+
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseType: "code id_token",
+        });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          `#code=test-code&id_token=${idToken}&state=test-state`,
+        );
+
+        expect(result.error).toBeInstanceOf(ProtocolError);
+        expect(result.error?.message).toBe(
+          "ID Token from the token endpoint does not match the ID Token from the authorization response",
+        );
+      });
+
+      it("response_typeに含まれるパラメータがない場合は拒否する", async () => {
+        const rp = new OpenIDConnectRP({
+          ...config,
+          responseType: "code id_token",
+        });
+        await rp.generateAuthorizationUrl();
+        const result = await rp.handleCallback(
+          "#code=test-code&state=test-state",
+        );
+
+        expect(result.error).toBeInstanceOf(ProtocolError);
+        expect(result.error?.message).toBe("ID Token is missing");
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+    });
+
+    it("認証コードがないコールバックを処理する", async () => {
+      const rp = new OpenIDConnectRP(config);
+      await rp.generateAuthorizationUrl();
+      const callbackUrl = `https://example.com/callback?state=${config.state}`;
+      const result = await rp.handleCallback(callbackUrl);
+
+      // 結果を検証
+      expect(result.error).toBeInstanceOf(ProtocolError);
+      expect(result.error?.message).toBe("Authorization code is missing");
+    });
+  });
+
+  describe("generateLogoutUrl", () => {
+    const logoutConfig: OpenIDConfiguration = {
+      ...config,
+      endSessionEndpoint: "https://auth.example.com/logout",
+      postLogoutRedirectUri: "https://example.com/logged-out",
+    };
+
+    it("ログアウトリクエストURLを生成する", async () => {
+      const rp = new OpenIDConnectRP({ ...logoutConfig, uiLocales: "ja" });
+      const url = new URL(
+        await rp.generateLogoutUrl({ idTokenHint: "test-id-token" }),
+      );
+
+      expect(`${url.origin}${url.pathname}`).toBe(
+        "https://auth.example.com/logout",
+      );
+      expect(url.searchParams.get("client_id")).toBe(config.clientId);
+      expect(url.searchParams.get("id_token_hint")).toBe("test-id-token");
+      expect(url.searchParams.get("post_logout_redirect_uri")).toBe(
+        "https://example.com/logged-out",
+      );
+      expect(url.searchParams.get("ui_locales")).toBe("ja");
+      // 認証リクエストの固定値ではなく、リクエストごとに生成する
+      expect(url.searchParams.get("state")).toHaveLength(32);
+      expect(url.searchParams.get("state")).not.toBe(config.state);
+    });
+
+    it("post_logout_redirect_uriがない場合はstateを含めない", async () => {
+      const rp = new OpenIDConnectRP({
+        ...logoutConfig,
+        postLogoutRedirectUri: undefined,
+      });
+      const url = new URL(await rp.generateLogoutUrl());
+
+      expect(url.searchParams.has("post_logout_redirect_uri")).toBe(false);
+      expect(url.searchParams.has("state")).toBe(false);
+    });
+
+    it("endSessionEndpointがない場合はエラーをスローする", async () => {
+      const rp = new OpenIDConnectRP(config);
+
+      await expect(rp.generateLogoutUrl()).rejects.toThrow(
+        "endSessionEndpoint is not configured",
+      );
+    });
+
+    describe("handleLogoutCallback", () => {
+      it("ログアウト後のリダイレクトのstateを検証する", async () => {
+        const rp = new OpenIDConnectRP(logoutConfig);
+        const url = new URL(await rp.generateLogoutUrl({ redirectTo: "/" }));
+        const state = url.searchParams.get("state");
+        const callbackUrl = `https://example.com/logged-out?state=${state}`;
+
+        const result = await rp.handleLogoutCallback(callbackUrl);
+        expect(result.error).toBeUndefined();
+        expect(result.transaction).toMatchObject({
+          type: "logout",
+          state,
+          redirectTo: "/",
+        });
+
+        // 同じ state は一度だけ使用できる
+        expect(
+          (await rp.handleLogoutCallback(callbackUrl)).error,
+        ).toBeInstanceOf(StateMismatchError);
+      });
+
+      it("不正なstateを拒否する", async () => {
+        const rp = new OpenIDConnectRP(logoutConfig);
+        await rp.generateLogoutUrl();
+
+        expect(
+          (
+            await rp.handleLogoutCallback(
+              new URLSearchParams({ state: "wrong-state" }),
+            )
+          ).error,
+        ).toBeInstanceOf(StateMismatchError);
+        expect(
+          (await rp.handleLogoutCallback("https://example.com/logged-out"))
+            .error,
+        ).toBeInstanceOf(StateMismatchError);
+      });
+
+      it("認証リクエストとログアウトリクエストのstateを区別する", async () => {
+        const rp = new OpenIDConnectRP(logoutConfig);
+        await rp.generateAuthorizationUrl();
+        const url = new URL(await rp.generateLogoutUrl());
+        const logoutState = url.searchParams.get("state");
+
+        expect(
+          (
+            await rp.handleLogoutCallback(
+              `https://example.com/logged-out?state=${config.state}`,
+            )
+          ).error,
+        ).toBeInstanceOf(StateMismatchError);
+        expect(
+          (
+            await rp.handleCallback(
+              `https://example.com/callback?code=test-code&state=${logoutState}`,
+            )
+          ).error,
+        ).toBeInstanceOf(StateMismatchError);
+        expect(mockFetch).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("HTTPリクエストの設定", () => {
+    it("指定したfetchの実装と追加のヘッダーを使用する", async () => {
+      const customFetch = vi
+        .fn()
+        .mockResolvedValueOnce(Response.json({ sub: "user123" }));
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        http: {
+          fetch: customFetch,
+          headers: { "User-Agent": "example-rp/1.0" },
+        },
+      });
+      await rp.getUserInfo("test-access-token");
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(customFetch).toHaveBeenCalledWith(config.userinfoEndpoint, {
+        headers: {
+          "User-Agent": "example-rp/1.0",
+          Authorization: "Bearer test-access-token",
+        },
+      });
+    });
+
+    it("UserInfoリクエストは5xxの場合に再試行する", async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 503 }))
+        .mockResolvedValueOnce(Response.json({ sub: "user123" }));
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        http: { retries: 1, retryDelay: 1 },
+      });
+      const userInfo = await rp.getUserInfo("test-access-token");
+
+      expect(userInfo.sub).toBe("user123");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("認証コードの交換は再試行しない", async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { status: 503, statusText: "Service Unavailable" }),
+      );
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        http: { retries: 3, retryDelay: 1 },
+      });
+
+      await expect(rp.getToken("test-code")).rejects.toThrow(
+        "Token request failed: Service Unavailable",
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it("リフレッシュはclient_assertionとDPoP証明を作り直して再試行する", async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError("fetch failed"))
+        .mockResolvedValueOnce(
+          new Response(null, { status: 429, headers: { "Retry-After": "0" } }),
+        )
+        .mockResolvedValueOnce(
+          Response.json({ access_token: "token", token_type: "Bearer" }),
+        );
+
+      const keyPair = await generateKeyPair("ES256", { extractable: true });
+      const rp = new OpenIDConnectRP({
+        ...config,
+        clientSecret: undefined,
+        tokenEndpointAuthMethod: "private_key_jwt",
+        privateKey: { ...(await exportJWK(keyPair.privateKey)), alg: "ES256" },
+        usePkce: false,
+        dpop: await DPoPSigner.generate(),
+        http: { retries: 2, retryDelay: 1 },
+      });
+      const result = await rp.refreshToken("test-refresh-token");
+
+      expect(result.access_token).toBe("token");
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      const attempts = mockFetch.mock.calls.map(([, init]) => ({
+        assertion: new URLSearchParams(init.body).get("client_assertion"),
+        proof: init.headers.DPoP,
+      }));
+      expect(new Set(attempts.map(({ assertion }) => assertion)).size).toBe(3);
+      expect(new Set(attempts.map(({ proof }) => proof)).size).toBe(3);
+    });
+
+    it.each<[string, Response, (rp: OpenIDConnectRP) => Promise<unknown>]>([
+      ["トークンの無効化", new Response(null), (rp) => rp.revokeToken("token")],
+      [
+        "イントロスペクション",
+        Response.json({ active: false }),
+        (rp) => rp.introspectToken("token"),
+      ],
+    ])(
+      "%sのリクエストは5xxの場合に再試行する",
+      async (_, response, request) => {
+        mockFetch
+          .mockResolvedValueOnce(new Response(null, { status: 503 }))
+          .mockResolvedValueOnce(response);
+
+        const rp = new OpenIDConnectRP({
+          ...config,
+          revocationEndpoint: "https://auth.example.com/revoke",
+          introspectionEndpoint: "https://auth.example.com/introspect",
+          http: { retries: 1, retryDelay: 1 },
+        });
+        await request(rp);
+
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+      },
+    );
+
+    it("JWKSの取得にも設定を使用する", async () => {
+      const customFetch = vi
+        .fn()
+        .mockResolvedValueOnce(Response.json({ keys: [publicJwk] }));
+      const now = Math.floor(Date.now() / 1000);
+      const idToken = await createIdToken({
+        iss: "https://auth.example.com",
+        sub: "user123",
+        aud: "test-client-id",
+        exp: now + 3600,
+        iat: now,
+        nonce: "test-nonce",
+      });
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        http: { fetch: customFetch },
+      });
+      const result = await rp.validateIdToken(idToken);
+
+      expect(result.valid).toBe(true);
+      expect(customFetch).toHaveBeenCalledWith(config.jwksUri, {
+        headers: { Accept: "application/json" },
+      });
+    });
+  });
+
+  describe("handleBackChannelLogout", () => {
+    // ログアウトトークンを生成する
+    const createLogoutToken = (claims: Record<string, unknown> = {}) =>
+      createIdToken({
+        iss: "https://auth.example.com",
+        aud: "test-client-id",
+        iat: Math.floor(Date.now() / 1000),
+        jti: "logout-jti",
+        sub: "user123",
+        sid: "session-1",
+        events: { "http://schemas.openid.net/event/backchannel-logout": {} },
+        ...claims,
+      });
+
+    it("ログアウトトークンを検証してonLogoutを呼び出す", async () => {
+      mockJwksResponse();
+      const onLogout = vi.fn();
+
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.handleBackChannelLogout(
+        { logout_token: await createLogoutToken() },
+        onLogout,
+      );
+
+      expect(result.error).toBeUndefined();
+      expect(result.claims).toMatchObject({ sub: "user123", sid: "session-1" });
+      expect(onLogout).toHaveBeenCalledWith(result.claims);
+    });
+
+    it("同じjtiのログアウトトークンは拒否する", async () => {
+      mockJwksResponse();
+      const onLogout = vi.fn();
+      const body = new URLSearchParams({
+        logout_token: await createLogoutToken(),
+      }).toString();
+
+      const rp = new OpenIDConnectRP(config);
+      await rp.handleBackChannelLogout(body, onLogout);
+      const result = await rp.handleBackChannelLogout(body, onLogout);
+
+      expect(result.error).toBeInstanceOf(ProtocolError);
+      expect(result.error?.message).toBe("Logout token has already been used");
+      expect(onLogout).toHaveBeenCalledTimes(1);
+    });
+
+    it("onLogoutが失敗した場合は同じjtiの再送を受け付ける", async () => {
+      mockJwksResponse();
+      const onLogout = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("session store unavailable"))
+        .mockResolvedValueOnce(undefined);
+      const body = { logout_token: await createLogoutToken() };
+
+      const rp = new OpenIDConnectRP(config);
+      await expect(rp.handleBackChannelLogout(body, onLogout)).rejects.toThrow(
+        "session store unavailable",
+      );
+      const result = await rp.handleBackChannelLogout(body, onLogout);
+
+      expect(result.error).toBeUndefined();
+      expect(onLogout).toHaveBeenCalledTimes(2);
+    });
+
+    it("クレームの検証に失敗した場合はonLogoutを呼び出さない", async () => {
+      mockJwksResponse();
+      const onLogout = vi.fn();
+
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.handleBackChannelLogout(
+        { logout_token: await createLogoutToken({ nonce: "test-nonce" }) },
+        onLogout,
+      );
+
+      expect(result.error?.message).toBe("Logout token must not contain nonce");
+      expect(onLogout).not.toHaveBeenCalled();
+    });
+
+    it("署名が不正な場合は拒否する", async () => {
+      mockJwksResponse();
+      const otherKey = (await generateKeyPair("RS256")).privateKey;
+      const logoutToken = await new SignJWT({ sub: "user123" })
+        .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+        .sign(otherKey);
+
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.handleBackChannelLogout(
+        { logout_token: logoutToken },
+        vi.fn(),
+      );
+
+      expect(result.error).toBeInstanceOf(ProtocolError);
+      expect(result.error?.message).toMatch(
+        /^Logout token verification failed: /,
+      );
+    });
+
+    it("logout_tokenがない場合は拒否する", async () => {
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.handleBackChannelLogout({}, vi.fn());
+
+      expect(result.error?.message).toBe(
+        "Back-channel logout request does not contain logout_token",
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("refreshToken", () => {
+    it("再発行されたIDトークンのsubが更新前と異なる場合は拒否する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          access_token: "new-access-token",
+          token_type: "Bearer",
+          id_token: await createTokenEndpointIdToken({ sub: "attacker" }),
+        }),
+      );
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP(config);
+
+      await expect(
+        rp.refreshToken("test-refresh-token", {
+          idToken: await createTokenEndpointIdToken(),
+        }),
+      ).rejects.toThrow(
+        "Refreshed ID Token does not match the original ID Token",
+      );
+    });
+
+    it("再発行されたIDトークンの署名が不正な場合は拒否する", async () => {
+      const otherKey = (await generateKeyPair("RS256")).privateKey;
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          access_token: "new-access-token",
+          token_type: "Bearer",
+          id_token: await new SignJWT({ sub: "user123" })
+            .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+            .sign(otherKey),
+        }),
+      );
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP(config);
+      const error = await rp.refreshToken("test-refresh-token").catch((e) => e);
+
+      expect(error).toBeInstanceOf(IdTokenValidationError);
+      expect(error.reason).toBe("invalid_signature");
+    });
+
+    it("リフレッシュトークンを使用して新しいトークンを取得する", async () => {
+      const tokenResponse: TokenResponse = {
+        access_token: "new-access-token",
+        token_type: "Bearer",
+        refresh_token: "new-refresh-token",
+        expires_in: 3600,
+        id_token: await createTokenEndpointIdToken({ nonce: undefined }),
+      };
+
+      // fetchのモック
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => tokenResponse,
+      });
+      mockJwksResponse();
+
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.refreshToken("test-refresh-token", {
+        idToken: await createTokenEndpointIdToken(),
+      });
+
+      // fetchが正しく呼び出されたか検証
+      expect(mockFetch).toHaveBeenCalledTimes(2); // トークン・JWKS
+      expect(mockFetch).toHaveBeenCalledWith(config.tokenEndpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: expect.any(String),
+      });
+
+      // リクエストボディを検証
+      const callArgs = mockFetch.mock.calls[0];
+      const requestBody = new URLSearchParams(callArgs[1].body);
+      expect(requestBody.get("grant_type")).toBe("refresh_token");
+      expect(requestBody.get("refresh_token")).toBe("test-refresh-token");
+      expect(requestBody.get("client_id")).toBe(config.clientId);
+      expect(requestBody.get("client_secret")).toBe(config.clientSecret);
+
+      // 結果を検証
+      expect(result).toEqual(tokenResponse);
+    });
+
+    it("トークンリフレッシュが失敗した場合はエラーをスローする", async () => {
+      // fetchのモック
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { status: 401, statusText: "Unauthorized" }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+
+      // エラーがスローされることを検証
+      await expect(rp.refreshToken("test-refresh-token")).rejects.toThrow(
         "Token refresh failed: Unauthorized",
       );
     });
   });
+
+  describe("revokeToken", () => {
+    const revocationConfig: OpenIDConfiguration = {
+      ...config,
+      revocationEndpoint: "https://auth.example.com/revoke",
+    };
+
+    it("トークンを無効化する", async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+      const rp = new OpenIDConnectRP(revocationConfig);
+      await rp.revokeToken("test-refresh-token", "refresh_token");
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://auth.example.com/revoke");
+      expect(init.method).toBe("POST");
+      const requestBody = new URLSearchParams(init.body);
+      expect(requestBody.get("token")).toBe("test-refresh-token");
+      expect(requestBody.get("token_type_hint")).toBe("refresh_token");
+      expect(requestBody.get("client_id")).toBe(config.clientId);
+      expect(requestBody.get("client_secret")).toBe(config.clientSecret);
+    });
+
+    it("トークンエンドポイントと同じクライアント認証を行う", async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 200 }));
+
+      const rp = new OpenIDConnectRP({
+        ...revocationConfig,
+        tokenEndpointAuthMethod: "client_secret_basic",
+      });
+      await rp.revokeToken("test-access-token");
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers.Authorization).toMatch(/^Basic /);
+      expect(new URLSearchParams(init.body).has("token_type_hint")).toBe(false);
+    });
+
+    it("エラーレスポンスの場合はOAuthErrorをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ error: "unsupported_token_type" }, { status: 400 }),
+      );
+
+      const rp = new OpenIDConnectRP(revocationConfig);
+      await expect(rp.revokeToken("test-access-token")).rejects.toMatchObject({
+        error: "unsupported_token_type",
+        status: 400,
+      });
+    });
+
+    it("revocationEndpointがない場合はエラーをスローする", async () => {
+      const rp = new OpenIDConnectRP(config);
+      await expect(rp.revokeToken("test-access-token")).rejects.toThrow(
+        "revocationEndpoint is not configured",
+      );
+    });
+  });
+
+  describe("introspectToken", () => {
+    const introspectionConfig: OpenIDConfiguration = {
+      ...config,
+      introspectionEndpoint: "https://auth.example.com/introspect",
+    };
+
+    it("トークンの状態を取得する", async () => {
+      const introspection = {
+        active: true,
+        scope: "openid profile",
+        client_id: "test-client-id",
+        sub: "user123",
+        exp: 1893456000,
+      };
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => introspection,
+      });
+
+      const rp = new OpenIDConnectRP(introspectionConfig);
+      const result = await rp.introspectToken(
+        "test-access-token",
+        "access_token",
+      );
+
+      expect(result).toEqual(introspection);
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://auth.example.com/introspect");
+      expect(init.headers.Accept).toBe("application/json");
+      const requestBody = new URLSearchParams(init.body);
+      expect(requestBody.get("token")).toBe("test-access-token");
+      expect(requestBody.get("token_type_hint")).toBe("access_token");
+      expect(requestBody.get("client_secret")).toBe(config.clientSecret);
+    });
+
+    it("無効なトークンの場合はactive: falseを返す", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ active: false }),
+      });
+
+      const rp = new OpenIDConnectRP(introspectionConfig);
+      expect(await rp.introspectToken("expired-token")).toEqual({
+        active: false,
+      });
+    });
+
+    it("activeがない場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json({ sub: "user123" }));
+
+      const rp = new OpenIDConnectRP(introspectionConfig);
+      await expect(rp.introspectToken("test-access-token")).rejects.toThrow(
+        "Introspection response does not contain active",
+      );
+    });
+
+    it("クライアント認証に失敗した場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ error: "invalid_client" }, { status: 401 }),
+      );
+
+      const rp = new OpenIDConnectRP(introspectionConfig);
+      await expect(
+        rp.introspectToken("test-access-token"),
+      ).rejects.toBeInstanceOf(OAuthError);
+    });
+  });
+
+  describe("デバイスフロー", () => {
+    const deviceConfig: OpenIDConfiguration = {
+      ...config,
+      deviceAuthorizationEndpoint: "https://auth.example.com/device",
+    };
+
+    const authorization = {
+      device_code: "test-device-code",
+      user_code: "ABCD-EFGH",
+      verification_uri: "https://auth.example.com/activate",
+      verification_uri_complete:
+        "https://auth.example.com/activate?user_code=ABCD-EFGH",
+      expires_in: 600,
+      interval: 5,
+    };
+
+    // トークンエンドポイントのエラーレスポンス
+    const mockTokenError = (error: string) => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ error }, { status: 400 }),
+      );
+    };
+
+    beforeEach(() => {
+      // Response のボディの読み取りに影響しないよう、setTimeout と Date のみを置き換える
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("デバイス認可リクエストを送信する", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json(authorization));
+
+      const rp = new OpenIDConnectRP(deviceConfig);
+      const result = await rp.requestDeviceAuthorization(
+        "openid offline_access",
+      );
+
+      expect(result).toEqual(authorization);
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://auth.example.com/device");
+      const requestBody = new URLSearchParams(init.body);
+      expect(requestBody.get("client_id")).toBe(config.clientId);
+      expect(requestBody.get("scope")).toBe("openid offline_access");
+      expect(requestBody.get("client_secret")).toBe(config.clientSecret);
+    });
+
+    it("デバイス認可レスポンスが不正な場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json({ device_code: "code" }));
+
+      const rp = new OpenIDConnectRP(deviceConfig);
+      await expect(rp.requestDeviceAuthorization()).rejects.toBeInstanceOf(
+        ProtocolError,
+      );
+    });
+
+    it("authorization_pendingとslow_downに従ってポーリングする", async () => {
+      mockTokenError("authorization_pending");
+      mockTokenError("slow_down");
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ access_token: "device-token", token_type: "Bearer" }),
+      );
+
+      const rp = new OpenIDConnectRP(deviceConfig);
+      const promise = rp.pollDeviceToken(authorization);
+
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(mockFetch).toHaveBeenCalledTimes(0);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      // slow_down を受け取った後は間隔を5秒延ばす
+      await vi.advanceTimersByTimeAsync(9999);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(await promise).toEqual({
+        access_token: "device-token",
+        token_type: "Bearer",
+      });
+      const requestBody = new URLSearchParams(mockFetch.mock.calls[2][1].body);
+      expect(requestBody.get("grant_type")).toBe(
+        "urn:ietf:params:oauth:grant-type:device_code",
+      );
+      expect(requestBody.get("device_code")).toBe("test-device-code");
+    });
+
+    it("ユーザーが拒否した場合はOAuthErrorをスローする", async () => {
+      mockTokenError("access_denied");
+
+      const rp = new OpenIDConnectRP(deviceConfig);
+      const promise = rp.pollDeviceToken(authorization);
+      const assertion = expect(promise).rejects.toMatchObject({
+        error: "access_denied",
+      });
+      await vi.advanceTimersByTimeAsync(5000);
+      await assertion;
+    });
+
+    it("device_codeの有効期限が切れた場合はexpired_tokenをスローする", async () => {
+      mockFetch.mockImplementation(async () =>
+        Response.json({ error: "authorization_pending" }, { status: 400 }),
+      );
+
+      const rp = new OpenIDConnectRP(deviceConfig);
+      const promise = rp.pollDeviceToken({ ...authorization, expires_in: 12 });
+      const assertion = expect(promise).rejects.toMatchObject({
+        error: "expired_token",
+      });
+      await vi.advanceTimersByTimeAsync(15000);
+      await assertion;
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("AbortSignalでポーリングを中止する", async () => {
+      const controller = new AbortController();
+
+      const rp = new OpenIDConnectRP(deviceConfig);
+      const promise = rp.pollDeviceToken(authorization, {
+        signal: controller.signal,
+      });
+      const assertion = expect(promise).rejects.toMatchObject({
+        name: "AbortError",
+      });
+      await vi.advanceTimersByTimeAsync(1000);
+      controller.abort();
+      await assertion;
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("IDトークンの検証に失敗した場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          access_token: "device-token",
+          token_type: "Bearer",
+          id_token: "invalid-id-token",
+        }),
+      );
+
+      const rp = new OpenIDConnectRP(deviceConfig);
+      const promise = rp.pollDeviceToken(authorization);
+      const assertion = expect(promise).rejects.toBeInstanceOf(
+        IdTokenValidationError,
+      );
+      await vi.advanceTimersByTimeAsync(5000);
+      await assertion;
+    });
+  });
+
+  describe("getClientCredentialsToken", () => {
+    it("client_credentialsグラントでトークンを取得する", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({
+          access_token: "service-token",
+          token_type: "Bearer",
+          expires_in: 3600,
+        }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.getClientCredentialsToken({
+        scope: "read write",
+        resource: ["https://api1.example.com", "https://api2.example.com"],
+        audience: "https://api.example.com",
+      });
+
+      expect(result.access_token).toBe("service-token");
+      const requestBody = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(requestBody.get("grant_type")).toBe("client_credentials");
+      expect(requestBody.get("scope")).toBe("read write");
+      expect(requestBody.getAll("resource")).toEqual([
+        "https://api1.example.com",
+        "https://api2.example.com",
+      ]);
+      expect(requestBody.get("audience")).toBe("https://api.example.com");
+      expect(requestBody.get("client_secret")).toBe(config.clientSecret);
+    });
+
+    it("scope・audienceごとにトークンをキャッシュする", async () => {
+      mockFetch.mockImplementation(async (_, init) =>
+        Response.json({
+          access_token: `token-${new URLSearchParams(init.body).get("scope")}`,
+          token_type: "Bearer",
+          expires_in: 3600,
+        }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      expect(
+        (await rp.getClientCredentialsToken({ scope: "read" })).access_token,
+      ).toBe("token-read");
+      expect(
+        (await rp.getClientCredentialsToken({ scope: "write" })).access_token,
+      ).toBe("token-write");
+      expect(
+        (await rp.getClientCredentialsToken({ scope: "read" })).access_token,
+      ).toBe("token-read");
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      await rp.getClientCredentialsToken({ scope: "read", forceRefresh: true });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      rp.clearClientCredentialsCache();
+      await rp.getClientCredentialsToken({ scope: "write" });
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it("expires_inのないトークンはキャッシュしない", async () => {
+      mockFetch.mockImplementation(async () =>
+        Response.json({ access_token: "service-token", token_type: "Bearer" }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      await rp.getClientCredentialsToken({ scope: "read" });
+      await rp.getClientCredentialsToken({ scope: "read" });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("有効期限が近いトークンは再取得する", async () => {
+      mockFetch.mockImplementation(async () =>
+        Response.json({
+          access_token: "service-token",
+          token_type: "Bearer",
+          expires_in: 30,
+        }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      await rp.getClientCredentialsToken();
+      await rp.getClientCredentialsToken();
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it("パブリッククライアントの場合はエラーをスローする", async () => {
+      const rp = new OpenIDConnectRP({ ...config, clientSecret: undefined });
+
+      await expect(rp.getClientCredentialsToken()).rejects.toThrow(
+        "client_credentials grant requires client authentication",
+      );
+    });
+  });
+
+  describe("exchangeToken", () => {
+    it("トークンを交換する", async () => {
+      const exchangeResponse = {
+        access_token: "downstream-token",
+        issued_token_type: "urn:ietf:params:oauth:token-type:access_token",
+        token_type: "Bearer",
+        expires_in: 300,
+      };
+      mockFetch.mockResolvedValueOnce(Response.json(exchangeResponse));
+
+      const rp = new OpenIDConnectRP(config);
+      const result = await rp.exchangeToken({
+        subjectToken: "user-token",
+        actorToken: "gateway-token",
+        actorTokenType: TOKEN_TYPES.jwt,
+        requestedTokenType: TOKEN_TYPES.accessToken,
+        audience: "downstream-service",
+        scope: "read",
+      });
+
+      expect(result).toEqual(exchangeResponse);
+      const requestBody = new URLSearchParams(mockFetch.mock.calls[0][1].body);
+      expect(Object.fromEntries(requestBody)).toEqual({
+        grant_type: "urn:ietf:params:oauth:grant-type:token-exchange",
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        subject_token: "user-token",
+        subject_token_type: "urn:ietf:params:oauth:token-type:access_token",
+        actor_token: "gateway-token",
+        actor_token_type: "urn:ietf:params:oauth:token-type:jwt",
+        requested_token_type: "urn:ietf:params:oauth:token-type:access_token",
+        audience: "downstream-service",
+        scope: "read",
+      });
+    });
+
+    it("actorTokenTypeがない場合はエラーをスローする", async () => {
+      const rp = new OpenIDConnectRP(config);
+
+      await expect(
+        rp.exchangeToken({ subjectToken: "user-token", actorToken: "actor" }),
+      ).rejects.toThrow(
+        "actorTokenType is required when actorToken is specified",
+      );
+    });
+
+    it("issued_token_typeがない場合はエラーをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ access_token: "token", token_type: "Bearer" }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      await expect(
+        rp.exchangeToken({ subjectToken: "user-token" }),
+      ).rejects.toThrow(
+        "Token exchange response does not contain issued_token_type",
+      );
+    });
+
+    it("invalid_targetの場合はOAuthErrorをスローする", async () => {
+      mockFetch.mockResolvedValueOnce(
+        Response.json({ error: "invalid_target" }, { status: 400 }),
+      );
+
+      const rp = new OpenIDConnectRP(config);
+      await expect(
+        rp.exchangeToken({ subjectToken: "user-token", audience: "unknown" }),
+      ).rejects.toMatchObject({ error: "invalid_target" });
+    });
+  });
+
+  describe("DPoP", () => {
+    const dpopTokenResponse: TokenResponse = {
+      access_token: "dpop-access-token",
+      token_type: "DPoP",
+    };
+
+    // ath の期待値
+    const sha256 = async (value: string) =>
+      base64url.encode(
+        new Uint8Array(
+          await crypto.subtle.digest(
+            "SHA-256",
+            new TextEncoder().encode(value),
+          ),
+        ),
+      );
+
+    // リクエストの DPoP 証明
+    const proofOf = (call: number) => {
+      const proof = mockFetch.mock.calls[call][1].headers.DPoP;
+      return {
+        header: decodeProtectedHeader(proof),
+        payload: decodeJwt(proof),
+      };
+    };
+
+    it("トークンリクエストにDPoP証明を付与する", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json(dpopTokenResponse));
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        dpop: await DPoPSigner.generate(),
+      });
+      const result = await rp.getToken("test-code");
+
+      expect(result).toEqual(dpopTokenResponse);
+      const { header, payload } = proofOf(0);
+      expect(header.typ).toBe("dpop+jwt");
+      expect(payload).toMatchObject({
+        htm: "POST",
+        htu: config.tokenEndpoint,
+      });
+      expect(payload).not.toHaveProperty("ath");
+    });
+
+    it("use_dpop_nonceの場合はnonceを付けて再送する", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          Response.json(
+            { error: "use_dpop_nonce" },
+            { status: 400, headers: { "DPoP-Nonce": "server-nonce" } },
+          ),
+        )
+        .mockResolvedValueOnce(Response.json(dpopTokenResponse));
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        dpop: await DPoPSigner.generate(),
+      });
+      const result = await rp.refreshToken("test-refresh-token");
+
+      expect(result).toEqual(dpopTokenResponse);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(proofOf(0).payload).not.toHaveProperty("nonce");
+      expect(proofOf(1).payload.nonce).toBe("server-nonce");
+      expect(proofOf(1).payload.jti).not.toBe(proofOf(0).payload.jti);
+    });
+
+    it("UserInfoリクエストでDPoPスキームとathを使用する", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json({ sub: "user123" }));
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        dpop: await DPoPSigner.generate(),
+      });
+      await rp.getUserInfo("dpop-access-token");
+
+      const { headers } = mockFetch.mock.calls[0][1];
+      expect(headers.Authorization).toBe("DPoP dpop-access-token");
+      expect(proofOf(0).payload).toMatchObject({
+        htm: "GET",
+        htu: config.userinfoEndpoint,
+        ath: await sha256("dpop-access-token"),
+      });
+    });
+
+    it("リソースサーバーのuse_dpop_nonceの場合はnonceを付けて再送する", async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          new Response(null, {
+            status: 401,
+            headers: {
+              "DPoP-Nonce": "resource-nonce",
+              "WWW-Authenticate": 'DPoP error="use_dpop_nonce"',
+            },
+          }),
+        )
+        .mockResolvedValueOnce(Response.json({ items: [] }));
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        dpop: await DPoPSigner.generate(),
+      });
+      const response = await rp.fetchResource(
+        "https://api.example.com/items?page=2",
+        "dpop-access-token",
+        { method: "POST", body: "{}" },
+      );
+
+      expect(await response.json()).toEqual({ items: [] });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1]).toMatchObject({
+        method: "POST",
+        body: "{}",
+      });
+      expect(proofOf(1).payload).toMatchObject({
+        htm: "POST",
+        htu: "https://api.example.com/items",
+        nonce: "resource-nonce",
+      });
+    });
+
+    it("token_typeがBearerの場合はDPoP証明を付与しない", async () => {
+      mockFetch.mockResolvedValueOnce(Response.json({}));
+
+      const rp = new OpenIDConnectRP({
+        ...config,
+        dpop: await DPoPSigner.generate(),
+      });
+      await rp.fetchResource("https://api.example.com", "bearer-token", {
+        tokenType: "Bearer",
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith("https://api.example.com", {
+        headers: { Authorization: "Bearer bearer-token" },
+      });
+    });
+
+    it("dpopがない場合はDPoPに束縛されたトークンを使用できない", async () => {
+      const rp = new OpenIDConnectRP(config);
+
+      await expect(
+        rp.fetchResource("https://api.example.com", "dpop-access-token", {
+          tokenType: "DPoP",
+        }),
+      ).rejects.toThrow("dpop is required to use DPoP-bound access tokens");
+    });
+
+    it("OPがサポートしていない署名アルゴリズムは拒否する", async () => {
+      const dpop = await DPoPSigner.generate("RS256");
+
+      expect(
+        () =>
+          new OpenIDConnectRP({
+            ...config,
+            dpop,
+            dpopSigningAlgValuesSupported: ["ES256"],
+          }),
+      ).toThrow(
+        'DPoP signing algorithm "RS256" is not supported by the provider',
+      );
+    });
+  });
 });
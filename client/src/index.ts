@@ -1,6 +1,123 @@
 /**
  * OpenID Connect Relying Party (RP) の基本クラス実装
  */
+import { type JWK, compactDecrypt, decodeJwt, importJWK } from "jose";
+import {
+  type JtiStore,
+  type LogoutTokenClaims,
+  MemoryJtiStore,
+  validateLogoutTokenClaims,
+} from "./backChannelLogout";
+import { type ClaimSource, resolveClaimSources } from "./claimSources";
+import {
+  CLIENT_AUTH_METHODS,
+  type ClientAuthMethod,
+  applyClientAuthentication,
+} from "./clientAuth";
+import { type ProviderMetadata, fetchProviderMetadata } from "./discovery";
+import type { DPoPSigner } from "./dpop";
+import {
+  IdTokenValidationError,
+  OAuthError,
+  OpenIDConnectError,
+  ProtocolError,
+  StateMismatchError,
+} from "./errors";
+import {
+  type HttpOptions,
+  readJson,
+  sendRequest,
+  sleep,
+  toResponseError,
+} from "./http";
+import {
+  type IdTokenValidationOptions,
+  type IdTokenValidationResult,
+  validateIdTokenClaims,
+} from "./idTokenValidator";
+import { JWKSCache, verifyJws } from "./jwks";
+import {
+  type CodeChallengeMethod,
+  calculateCodeChallenge,
+  generateCodeVerifier,
+} from "./pkce";
+import {
+  type ClientMetadata,
+  type ClientRegistrationOptions,
+  type ClientRegistrationResponse,
+  registerClient,
+} from "./registration";
+import { type ClaimsRequest, createRequestObject } from "./requestObject";
+import { TokenSet } from "./tokenSet";
+import {
+  type AuthorizationTransaction,
+  type LogoutTransaction,
+  MemoryTransactionStore,
+  type TransactionStore,
+} from "./transactionStore";
+
+export type { JtiStore, LogoutTokenClaims } from "./backChannelLogout";
+export {
+  BACK_CHANNEL_LOGOUT_EVENT,
+  MemoryJtiStore,
+} from "./backChannelLogout";
+export type { ClaimSource } from "./claimSources";
+export type { ClientAuthMethod } from "./clientAuth";
+export type { DPoPSigningAlgorithm } from "./dpop";
+export { DPoPSigner } from "./dpop";
+export {
+  BearerTokenError,
+  ClaimSourceError,
+  IdTokenValidationError,
+  NetworkError,
+  OAuthError,
+  OpenIDConnectError,
+  ProtocolError,
+  StateMismatchError,
+} from "./errors";
+export type {
+  HttpOptions,
+  HttpRequestInfo,
+  HttpResponseInfo,
+} from "./http";
+export type {
+  IdTokenValidationFailureReason,
+  IdTokenValidationOptions,
+  IdTokenValidationResult,
+} from "./idTokenValidator";
+export type {
+  ProviderCallbackResult,
+  ProviderLogoutCallbackResult,
+  ProviderRegistryOptions,
+} from "./providerRegistry";
+export { ProviderRegistry } from "./providerRegistry";
+export type { ClaimRequest, ClaimsRequest } from "./requestObject";
+export type {
+  ClientMetadata,
+  ClientRegistrationOptions,
+  ClientRegistrationResponse,
+} from "./registration";
+export {
+  deleteClientRegistration,
+  readClientRegistration,
+  registerClient,
+  updateClientRegistration,
+} from "./registration";
+export type {
+  TokenRefresher,
+  TokenSetManagerOptions,
+} from "./tokenSet";
+export { TokenSet, TokenSetManager } from "./tokenSet";
+export type {
+  AuthorizationTransaction,
+  LogoutTransaction,
+  Transaction,
+  TransactionStore,
+} from "./transactionStore";
+export {
+  MemoryTransactionStore,
+  SqliteTransactionStore,
+} from "./transactionStore";
 
 // 必要な型定義
 export interface OpenIDConfiguration {
@@ -12,17 +129,33 @@ export interface OpenIDConfiguration {
   responseType?: string;
   scope?: string;
 
-  // OpenID Provider (OP) のエンドポイント
+  // OpenID Provider (OP) の発行者識別子とエンドポイント
+  issuer?: string;
   authorizationEndpoint: string;
   tokenEndpoint: string;
   userinfoEndpoint?: string;
   jwksUri?: string;
+  endSessionEndpoint?: string;
+  revocationEndpoint?: string;
+  introspectionEndpoint?: string;
+  deviceAuthorizationEndpoint?: string;
+  pushedAuthorizationRequestEndpoint?: string;
 
-  // その他の設定
+  // クライアント認証の設定
   clientSecret?: string;
+  tokenEndpointAuthMethod?: ClientAuthMethod; // デフォルト: clientSecret があれば client_secret_post、なければ none
+  privateKey?: JWK; // private_key_jwt で使用する秘密鍵
+  tokenEndpointAuthSigningAlg?: string; // client_secret_jwt / private_key_jwt の署名アルゴリズム
+  userinfoDecryptionKey?: JWK; // 暗号化された UserInfo レスポンスの復号に使用する秘密鍵
+  trustedClaimsIssuers?: string[]; // 集約クレーム・分散クレームの JWT の発行者として受け付ける値（デフォルト: [issuer]）
+
+  // DPoP（指定した場合はトークンリクエストに DPoP 証明を付与し、DPoP に束縛されたトークンを取得する）
+  dpop?: DPoPSigner;
+
+  // その他の設定
   responseMode?: string;
-  state?: string;
-  nonce?: string;
+  state?: string; // 固定値（省略時は認証リクエストごとに生成される）
+  nonce?: string; // 固定値（省略時は認証リクエストごとに生成される）
   display?: string;
   prompt?: string;
   maxAge?: number;
@@ -30,6 +163,147 @@ export interface OpenIDConfiguration {
   idTokenHint?: string;
   loginHint?: string;
   acrValues?: string;
+  postLogoutRedirectUri?: string; // ログアウト後のリダイレクト先（デフォルト値）
+  claims?: ClaimsRequest; // 個々のクレームの要求（claims パラメータ）
+
+  // PKCE の設定（パブリッククライアントでは無効にできない）
+  usePkce?: boolean;
+  codeChallengeMethod?: CodeChallengeMethod;
+
+  // IDトークンの検証の設定
+  clockSkew?: number; // 許容する時刻のずれ（秒、デフォルト: 60）
+  trustedAudiences?: string[]; // aud に含まれていてもよい clientId 以外の値
+
+  // リクエストオブジェクト（JAR）の設定（署名には privateKey を使用する）
+  requestObject?: "value" | "reference"; // 認証リクエストのパラメータを request（値渡し）または request_uri（参照渡し）で送信する
+  requestObjectSigningAlg?: string; // デフォルト: privateKey の alg または RS256
+  requestObjectEncryptionKey?: JWK; // OP の暗号化用公開鍵（指定した場合は暗号化する）
+  requestObjectEncryptionAlg?: string; // デフォルト: JWK の alg または RSA-OAEP-256
+  requestObjectEncryptionEnc?: string; // デフォルト: A256GCM
+  publishRequestObject?: (requestObject: string) => Promise<string>; // 参照渡しの場合にリクエストオブジェクトを公開し、その URL を返す
+
+  // Pushed Authorization Requests（有効な場合は generateAuthorizationUrl でも常に PAR を使用する）
+  requirePushedAuthorizationRequests?: boolean;
+
+  // 認証レスポンスの iss パラメータ（RFC 9207、有効な場合は iss を含まないレスポンスを拒否する）
+  authorizationResponseIssParameterSupported?: boolean;
+
+  // 認証リクエストのトランザクションの保存先（デフォルト: MemoryTransactionStore）
+  transactionStore?: TransactionStore;
+
+  // HTTP リクエストの設定（fetch の実装、タイムアウト、再試行、追加のヘッダー、フック）
+  http?: HttpOptions;
+
+  // バックチャネルログアウトの設定
+  logoutTokenMaxAge?: number; // ログアウトトークンを iat から受け付ける期間（秒、デフォルト: 300）
+  jtiStore?: JtiStore; // 使用済みのログアウトトークンの jti の保存先（デフォルト: MemoryJtiStore）
+
+  // OP がサポートする機能（Discovery で設定される。指定した場合は未サポートの設定を拒否する）
+  responseTypesSupported?: string[];
+  responseModesSupported?: string[];
+  idTokenSigningAlgValuesSupported?: string[];
+  authorizationSigningAlgValuesSupported?: string[]; // JARM の署名アルゴリズム
+  userinfoSigningAlgValuesSupported?: string[];
+  dpopSigningAlgValuesSupported?: string[];
+  tokenEndpointAuthMethodsSupported?: string[];
+  codeChallengeMethodsSupported?: string[];
+}
+
+// Discovery で取得できない、クライアント固有の設定
+export type OpenIDClientOptions = Omit<
+  OpenIDConfiguration,
+  "authorizationEndpoint" | "tokenEndpoint"
+> &
+  Partial<Pick<OpenIDConfiguration, "authorizationEndpoint" | "tokenEndpoint">>;
+
+// 認証レスポンス（リダイレクトURL、"#" で始まるURLフラグメント、または form_post のリクエストボディ）
+export type CallbackInput = string | URLSearchParams | Record<string, string>;
+
+// 認証レスポンスの処理結果
+export interface CallbackResult {
+  tokenResponse?: TokenResponse; // トークンエンドポイント、または認証レスポンスで直接発行されたトークン
+  idToken?: string; // 検証済みのIDトークン
+  idTokenClaims?: IDTokenPayload; // 検証済みのIDトークンのペイロード
+  transaction?: AuthorizationTransaction;
+  error?: OpenIDConnectError; // OAuthError / ProtocolError / NetworkError など
+}
+
+// 認証レスポンスのパラメータ（誤った経路で受け取っていないかの判定に使用する）
+const AUTHORIZATION_RESPONSE_PARAMS = [
+  "code",
+  "state",
+  "error",
+  "id_token",
+  "access_token",
+  "token_type",
+  "iss",
+  "response", // JARM
+];
+
+// 再試行しないトークンリクエストのグラント（認証コードは一度しか使用できず、デバイスフローはポーリングで再送する）
+const NON_RETRYABLE_GRANT_TYPES = [
+  "authorization_code",
+  "urn:ietf:params:oauth:grant-type:device_code",
+];
+
+// サポートする response_type（OpenID Connect Core 1.0 3）
+const SUPPORTED_RESPONSE_TYPES = [
+  "code",
+  "id_token",
+  "id_token token",
+  "code id_token",
+  "code token",
+  "code id_token token",
+];
+
+// 認証リクエストごとの設定
+export interface AuthorizationRequestOptions {
+  redirectTo?: string; // ログイン完了後の遷移先（handleCallback の結果で返される）
+  maxAge?: number; // 省略時は config.maxAge
+  claims?: ClaimsRequest; // 省略時は config.claims
+}
+
+// ログアウトリクエストごとの設定
+export interface LogoutRequestOptions {
+  idTokenHint?: string; // ログイン時に受け取ったIDトークン
+  postLogoutRedirectUri?: string; // 省略時は config.postLogoutRedirectUri
+  uiLocales?: string; // 省略時は config.uiLocales
+  redirectTo?: string; // ログアウト完了後の遷移先（handleLogoutCallback の結果で返される）
+}
+
+// ログアウト後のリダイレクトの処理結果
+export interface LogoutCallbackResult {
+  transaction?: LogoutTransaction;
+  error?: OpenIDConnectError;
+}
+
+// バックチャネルログアウトのリクエスト（application/x-www-form-urlencoded のリクエストボディ）
+export type BackChannelLogoutInput =
+  | string
+  | URLSearchParams
+  | Record<string, string>;
+
+// バックチャネルログアウトの処理結果（error がある場合は 400 Bad Request を返す）
+export interface BackChannelLogoutResult {
+  claims?: LogoutTokenClaims;
+  error?: OpenIDConnectError;
+}
+
+// UserInfo リクエストごとの設定
+export interface UserInfoRequestOptions {
+  method?: "GET" | "POST"; // デフォルト: GET
+  expectedSubject?: string; // IDトークンの sub（指定した場合は UserInfo の sub と照合する）
+  resolveClaims?: boolean; // 集約クレーム・分散クレームを取得して統合する（デフォルト: false）
+  tokenType?: string; // トークンレスポンスの token_type（デフォルト: dpop を設定した場合は DPoP、それ以外は Bearer）
+}
+
+// リソースサーバーへのリクエストの設定
+export interface ResourceRequestOptions {
+  method?: string; // デフォルト: GET
+  headers?: Record<string, string>;
+  body?: BodyInit;
+  signal?: AbortSignal;
+  tokenType?: string; // トークンレスポンスの token_type（デフォルト: dpop を設定した場合は DPoP、それ以外は Bearer）
 }
 
 export interface TokenResponse {
@@ -41,6 +315,79 @@ export interface TokenResponse {
   scope?: string;
 }
 
+// リフレッシュトークンによる更新の設定
+export interface RefreshTokenOptions {
+  idToken?: string; // 更新前のIDトークン（指定した場合は再発行されたIDトークンの iss・sub・aud・auth_time の一致を確認する）
+}
+
+// デバイス認可レスポンス（RFC 8628 3.2）
+export interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string; // user_code を含む検証URL（QRコードなどに使用する）
+  expires_in: number;
+  interval?: number; // ポーリング間隔（秒、デフォルト: 5）
+}
+
+// デバイスフローのポーリングの設定
+export interface DevicePollingOptions {
+  signal?: AbortSignal; // ポーリングを中止する
+}
+
+// client_credentials グラントの設定
+export interface ClientCredentialsOptions {
+  scope?: string;
+  resource?: string | string[]; // リソースインジケーター（RFC 8707）
+  audience?: string; // 一部の OP が使用する独自パラメータ
+  forceRefresh?: boolean; // キャッシュを使用せずに取得する
+}
+
+// トークン交換のリクエスト（RFC 8693 2.1）
+export interface TokenExchangeOptions {
+  subjectToken: string;
+  subjectTokenType?: string; // デフォルト: urn:ietf:params:oauth:token-type:access_token
+  actorToken?: string;
+  actorTokenType?: string; // actorToken を指定した場合は必須
+  requestedTokenType?: string;
+  audience?: string | string[];
+  resource?: string | string[];
+  scope?: string;
+}
+
+// トークン交換のレスポンス（RFC 8693 2.2.1）
+export interface TokenExchangeResponse extends TokenResponse {
+  issued_token_type: string;
+}
+
+// トークンの種類の識別子（RFC 8693 3）
+export const TOKEN_TYPES = {
+  accessToken: "urn:ietf:params:oauth:token-type:access_token",
+  refreshToken: "urn:ietf:params:oauth:token-type:refresh_token",
+  idToken: "urn:ietf:params:oauth:token-type:id_token",
+  jwt: "urn:ietf:params:oauth:token-type:jwt",
+} as const;
+
+// トークンの種類のヒント（RFC 7009 2.1）
+export type TokenTypeHint = "access_token" | "refresh_token";
+
+// イントロスペクションのレスポンス（RFC 7662 2.2）
+export interface IntrospectionResponse {
+  active: boolean;
+  scope?: string;
+  client_id?: string;
+  username?: string;
+  token_type?: string;
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  sub?: string;
+  aud?: string | string[];
+  iss?: string;
+  jti?: string;
+  [key: string]: unknown; // その他の拡張パラメータ
+}
+
 export interface UserInfo {
   sub: string;
   name?: string;
@@ -69,6 +416,8 @@ export interface UserInfo {
     country?: string;
   };
   updated_at?: number;
+  _claim_names?: Record<string, string>; // クレーム名とソース名の対応（集約・分散クレーム）
+  _claim_sources?: Record<string, ClaimSource>;
   [key: string]: unknown; // その他のカスタムクレーム
 }
 
@@ -93,8 +442,11 @@ export interface IDTokenPayload {
  */
 export class OpenIDConnectRP {
   private config: OpenIDConfiguration;
-  private state: string;
-  private nonce: string;
+  private transactionStore: TransactionStore;
+  private jtiStore: JtiStore;
+  private jwks?: JWKSCache;
+  private readonly claimsProviderJwks = new Map<string, JWKSCache>(); // 発行者ごとの JWK Set
+  private readonly clientCredentialsCache = new Map<string, TokenSet>();
 
   /**
    * コンストラクタ
@@ -115,32 +467,307 @@ export class OpenIDConnectRP {
       throw new Error("tokenEndpoint is required");
     }
 
+    // response_type の検証（値の順序は問わない）
+    if (
+      config.responseType &&
+      !SUPPORTED_RESPONSE_TYPES.includes(
+        normalizeResponseType(config.responseType),
+      )
+    ) {
+      throw new Error(`Unsupported responseType: ${config.responseType}`);
+    }
+
+    // クライアント認証の検証
+    const tokenEndpointAuthMethod =
+      config.tokenEndpointAuthMethod ||
+      (config.clientSecret ? "client_secret_post" : "none");
+    if (!CLIENT_AUTH_METHODS.includes(tokenEndpointAuthMethod)) {
+      throw new Error(
+        `Unsupported tokenEndpointAuthMethod: ${tokenEndpointAuthMethod}`,
+      );
+    }
+    if (
+      tokenEndpointAuthMethod.startsWith("client_secret_") &&
+      !config.clientSecret
+    ) {
+      throw new Error(
+        `clientSecret is required for ${tokenEndpointAuthMethod}`,
+      );
+    }
+    if (tokenEndpointAuthMethod === "private_key_jwt" && !config.privateKey) {
+      throw new Error("privateKey is required for private_key_jwt");
+    }
+
+    // PKCE はパブリッククライアントでは必須
+    if (config.usePkce === false && tokenEndpointAuthMethod === "none") {
+      throw new Error("PKCE is required for public clients");
+    }
+
     // デフォルト値の設定
     this.config = {
       ...config,
       responseType: config.responseType || "code",
       scope: config.scope || "openid profile email",
+      tokenEndpointAuthMethod,
+      usePkce: config.usePkce ?? true,
+      codeChallengeMethod: config.codeChallengeMethod || "S256",
     };
 
-    // state と nonce の生成
-    this.state = config.state || this.generateRandomString();
-    this.nonce = config.nonce || this.generateRandomString();
+    // OP がサポートしていない設定の拒否
+    this.assertSupported(
+      "responseType",
+      this.config.responseType,
+      config.responseTypesSupported,
+    );
+    this.assertSupported(
+      "responseMode",
+      config.responseMode,
+      config.responseModesSupported,
+    );
+    this.assertSupported(
+      "tokenEndpointAuthMethod",
+      tokenEndpointAuthMethod,
+      config.tokenEndpointAuthMethodsSupported,
+    );
+    this.assertSupported(
+      "DPoP signing algorithm",
+      config.dpop?.alg,
+      config.dpopSigningAlgValuesSupported,
+    );
+    if (this.config.usePkce) {
+      this.assertSupported(
+        "codeChallengeMethod",
+        this.config.codeChallengeMethod,
+        config.codeChallengeMethodsSupported,
+      );
+    }
+
+    // リクエストオブジェクトの検証
+    if (config.requestObject) {
+      if (!config.privateKey) {
+        throw new Error("privateKey is required to sign request objects");
+      }
+      if (!config.issuer) {
+        throw new Error("issuer is required to create request objects");
+      }
+      if (
+        config.requestObject === "reference" &&
+        !config.publishRequestObject
+      ) {
+        throw new Error(
+          "publishRequestObject is required when requestObject is reference",
+        );
+      }
+    }
+
+    // JWT 形式の認証レスポンス（JARM）の検証には issuer と jwksUri が必要
+    if (config.responseMode?.endsWith("jwt")) {
+      if (!config.issuer) {
+        throw new Error("issuer is required for JWT response modes");
+      }
+      if (!config.jwksUri) {
+        throw new Error("jwksUri is required for JWT response modes");
+      }
+    }
+
+    if (
+      config.requirePushedAuthorizationRequests &&
+      !config.pushedAuthorizationRequestEndpoint
+    ) {
+      throw new Error(
+        "pushedAuthorizationRequestEndpoint is required when requirePushedAuthorizationRequests is enabled",
+      );
+    }
+
+    this.transactionStore =
+      config.transactionStore || new MemoryTransactionStore();
+    this.jtiStore = config.jtiStore || new MemoryJtiStore();
+  }
+
+  /**
+   * 発行者の Discovery メタデータから RP を生成する
+   * @param issuer 発行者の識別子
+   * @param clientOptions クライアント固有の設定
+   * @returns OpenIDConnectRP のインスタンス
+   */
+  public static async discover(
+    issuer: string,
+    clientOptions: OpenIDClientOptions,
+  ): Promise<OpenIDConnectRP> {
+    const metadata = await fetchProviderMetadata(issuer, {
+      http: clientOptions.http,
+    });
+
+    return new OpenIDConnectRP({
+      ...toProviderConfiguration(metadata),
+      ...clientOptions,
+    });
+  }
+
+  /**
+   * 発行者の登録エンドポイントにクライアントを登録し、RP の設定を生成する（RFC 7591）
+   * @param issuer 発行者の識別子
+   * @param metadata クライアントメタデータ（redirect_uris は必須）
+   * @param options 登録の設定
+   * @returns RP の設定と、登録の参照・更新・削除に使用するクライアント登録のレスポンス
+   * @throws OAuthError OP がエラーレスポンス（invalid_redirect_uri など）を返した場合
+   */
+  public static async register(
+    issuer: string,
+    metadata: ClientMetadata,
+    options: ClientRegistrationOptions = {},
+  ): Promise<{
+    configuration: OpenIDConfiguration;
+    registration: ClientRegistrationResponse;
+  }> {
+    if (!metadata.redirect_uris?.length) {
+      throw new Error("redirect_uris is required");
+    }
+
+    const providerMetadata = await fetchProviderMetadata(issuer, {
+      http: options.http,
+    });
+    if (!providerMetadata.registration_endpoint) {
+      throw new ProtocolError(
+        "registration_endpoint is missing in provider metadata",
+      );
+    }
+
+    const registration = await registerClient(
+      providerMetadata.registration_endpoint,
+      metadata,
+      options,
+    );
+
+    // OP が値を変更した場合に備え、登録のレスポンスのメタデータを優先する
+    // token_endpoint_auth_method を省略した場合のデフォルトは client_secret_basic（RFC 7591 2）
+    const tokenEndpointAuthMethod =
+      registration.token_endpoint_auth_method ??
+      metadata.token_endpoint_auth_method ??
+      (registration.client_secret ? "client_secret_basic" : undefined);
+    const configuration: OpenIDConfiguration = {
+      ...toProviderConfiguration(providerMetadata),
+      clientId: registration.client_id,
+      clientSecret: registration.client_secret,
+      redirectUri: (registration.redirect_uris ?? metadata.redirect_uris)[0],
+      responseType: registration.response_types?.[0],
+      tokenEndpointAuthMethod: tokenEndpointAuthMethod as
+        | ClientAuthMethod
+        | undefined,
+      tokenEndpointAuthSigningAlg: registration.token_endpoint_auth_signing_alg,
+      postLogoutRedirectUri: registration.post_logout_redirect_uris?.[0],
+      http: options.http,
+    };
+    return { configuration, registration };
   }
 
   /**
    * 認証リクエストURLを生成する
+   * リクエストごとに state・nonce・code_verifier を生成し、トランザクションとして保存する
+   * requirePushedAuthorizationRequests が有効な場合は generatePushedAuthorizationUrl と同じく PAR を使用する
+   * @param options 認証リクエストごとの設定
    * @returns 認証リクエストURL
    */
-  public generateAuthorizationUrl(): string {
+  public async generateAuthorizationUrl(
+    options: AuthorizationRequestOptions = {},
+  ): Promise<string> {
+    if (this.config.requirePushedAuthorizationRequests) {
+      return this.generatePushedAuthorizationUrl(options);
+    }
+
+    const { transaction, params } =
+      await this.createAuthorizationRequest(options);
+    await this.transactionStore.save(transaction);
+
+    return `${this.config.authorizationEndpoint}?${params.toString()}`;
+  }
+
+  /**
+   * 認証リクエストのパラメータを OP に送信し（Pushed Authorization Requests, RFC 9126）、request_uri を使用した認証リクエストURLを生成する
+   * パラメータはクライアント認証を伴うバックチャネルで送信されるため、フロントチャネルには client_id と request_uri のみが含まれる
+   * @param options 認証リクエストごとの設定
+   * @returns 認証リクエストURL
+   * @throws OAuthError OP がエラーレスポンスを返した場合
+   */
+  public async generatePushedAuthorizationUrl(
+    options: AuthorizationRequestOptions = {},
+  ): Promise<string> {
+    if (!this.config.pushedAuthorizationRequestEndpoint) {
+      throw new Error("pushedAuthorizationRequestEndpoint is not configured");
+    }
+
+    const { transaction, params } =
+      await this.createAuthorizationRequest(options);
+    const response = await this.sendAuthenticatedRequest(
+      this.config.pushedAuthorizationRequestEndpoint,
+      params,
+      { headers: { Accept: "application/json" } },
+    );
+    if (!response.ok) {
+      throw await toResponseError(response, "Pushed authorization request");
+    }
+
+    const { request_uri } = await readJson<{
+      request_uri?: unknown;
+      expires_in?: unknown;
+    }>(response, "Pushed authorization");
+    if (typeof request_uri !== "string") {
+      throw new ProtocolError(
+        "Pushed authorization response does not contain request_uri",
+        response.status,
+      );
+    }
+    await this.transactionStore.save(transaction);
+
+    const query = new URLSearchParams({
+      client_id: this.config.clientId,
+      request_uri,
+    });
+    return `${this.config.authorizationEndpoint}?${query.toString()}`;
+  }
+
+  /**
+   * 認証リクエストのトランザクションとパラメータを生成する
+   * @param options 認証リクエストごとの設定
+   * @returns トランザクションと認証リクエストのパラメータ
+   */
+  private async createAuthorizationRequest(
+    options: AuthorizationRequestOptions,
+  ): Promise<{
+    transaction: AuthorizationTransaction;
+    params: URLSearchParams;
+  }> {
+    const transaction: AuthorizationTransaction = {
+      state: this.config.state || this.generateRandomString(),
+      nonce: this.config.nonce || this.generateRandomString(),
+      codeVerifier:
+        this.config.usePkce && this.getResponseTypes().has("code")
+          ? generateCodeVerifier()
+          : undefined,
+      redirectTo: options.redirectTo,
+      maxAge: options.maxAge ?? this.config.maxAge,
+      createdAt: Date.now(),
+    };
+
     const params = new URLSearchParams({
       client_id: this.config.clientId,
       redirect_uri: this.config.redirectUri,
       response_type: this.config.responseType || "code",
       scope: this.config.scope || "openid profile email",
-      state: this.state,
-      nonce: this.nonce,
+      state: transaction.state,
+      nonce: transaction.nonce,
     });
 
+    // PKCE
+    if (transaction.codeVerifier) {
+      const method = this.config.codeChallengeMethod || "S256";
+      params.append(
+        "code_challenge",
+        await calculateCodeChallenge(transaction.codeVerifier, method),
+      );
+      params.append("code_challenge_method", method);
+    }
+
     // 任意パラメータの追加
     if (this.config.responseMode) {
       params.append("response_mode", this.config.responseMode);
@@ -151,8 +778,8 @@ export class OpenIDConnectRP {
     if (this.config.prompt) {
       params.append("prompt", this.config.prompt);
     }
-    if (this.config.maxAge !== undefined) {
-      params.append("max_age", this.config.maxAge.toString());
+    if (transaction.maxAge !== undefined) {
+      params.append("max_age", transaction.maxAge.toString());
     }
     if (this.config.uiLocales) {
       params.append("ui_locales", this.config.uiLocales);
@@ -166,16 +793,58 @@ export class OpenIDConnectRP {
     if (this.config.acrValues) {
       params.append("acr_values", this.config.acrValues);
     }
+    const claims = options.claims ?? this.config.claims;
+    if (claims) {
+      params.append("claims", JSON.stringify(claims));
+    }
 
-    return `${this.config.authorizationEndpoint}?${params.toString()}`;
+    if (!this.config.requestObject) {
+      return { transaction, params };
+    }
+
+    // リクエストオブジェクト（OpenID Connect Core 1.0 6.1 に従い response_type と scope はクエリにも含める）
+    const requestObject = await createRequestObject(params, {
+      clientId: this.config.clientId,
+      audience: this.config.issuer ?? "",
+      signingKey: this.config.privateKey as JWK,
+      signingAlg: this.config.requestObjectSigningAlg,
+      encryptionKey: this.config.requestObjectEncryptionKey,
+      encryptionAlg: this.config.requestObjectEncryptionAlg,
+      encryptionEnc: this.config.requestObjectEncryptionEnc,
+    });
+    const requestParams = new URLSearchParams({
+      client_id: this.config.clientId,
+      response_type: params.get("response_type") ?? "code",
+      scope: params.get("scope") ?? "openid",
+    });
+    if (
+      this.config.requestObject === "reference" &&
+      this.config.publishRequestObject
+    ) {
+      requestParams.append(
+        "request_uri",
+        await this.config.publishRequestObject(requestObject),
+      );
+    } else {
+      requestParams.append("request", requestObject);
+    }
+    return { transaction, params: requestParams };
   }
 
   /**
    * 認証コードを使用してトークンを取得する
    * @param code 認証コード
+   * @param codeVerifier PKCE の code_verifier（パブリッククライアントの場合は必須）
    * @returns トークンレスポンス
    */
-  public async getToken(code: string): Promise<TokenResponse> {
+  public async getToken(
+    code: string,
+    codeVerifier?: string,
+  ): Promise<TokenResponse> {
+    if (!codeVerifier && this.config.tokenEndpointAuthMethod === "none") {
+      throw new Error("code_verifier is required for public clients");
+    }
+
     const params = new URLSearchParams({
       grant_type: "authorization_code",
       code,
@@ -183,149 +852,844 @@ export class OpenIDConnectRP {
       client_id: this.config.clientId,
     });
 
-    if (this.config.clientSecret) {
-      params.append("client_secret", this.config.clientSecret);
+    if (codeVerifier) {
+      params.append("code_verifier", codeVerifier);
     }
 
-    const response = await fetch(this.config.tokenEndpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: params.toString(),
+    return this.requestToken(params, "Token request");
+  }
+
+  /**
+   * IDトークンを検証する
+   * 署名と OpenID Connect Core 1.0 3.1.3.7 のクレームを検証する
+   * @param idToken IDトークン
+   * @param options 認証リクエスト・レスポンスに由来する検証条件（handleCallback の結果の transaction を渡せる）
+   * @returns 検証結果（デコードしたペイロード、または失敗の理由）
+   */
+  public async validateIdToken(
+    idToken: string,
+    options: IdTokenValidationOptions = {},
+  ): Promise<IdTokenValidationResult> {
+    return this.verifyIdToken(idToken, {
+      ...options,
+      nonce: options.nonce ?? this.config.nonce,
+      maxAge: options.maxAge ?? this.config.maxAge,
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Token request failed: ${response.statusText}`);
+  /**
+   * IDトークンの署名とクレームを検証する（nonce・max_age は RP の設定で補完しない）
+   * @param idToken IDトークン
+   * @param options 検証条件
+   * @returns 検証結果（デコードしたペイロード、または失敗の理由）
+   */
+  private async verifyIdToken(
+    idToken: string,
+    options: IdTokenValidationOptions,
+  ): Promise<IdTokenValidationResult> {
+    // 署名の検証（kid と alg に合致する鍵を JWK Set から選択する）
+    let alg: string;
+    let payload: IDTokenPayload;
+    try {
+      if (!this.config.jwksUri) {
+        throw new Error("jwksUri is not configured");
+      }
+      this.jwks ??= new JWKSCache(this.config.jwksUri, {
+        http: this.config.http,
+      });
+
+      const verified = await verifyJws(idToken, this.jwks, {
+        algorithms: this.config.idTokenSigningAlgValuesSupported,
+      });
+      alg = String(verified.header.alg);
+      payload = JSON.parse(new TextDecoder().decode(verified.payload));
+    } catch (error) {
+      return {
+        valid: false,
+        reason: "invalid_signature",
+        message: error instanceof Error ? error.message : String(error),
+      };
     }
 
-    return (await response.json()) as TokenResponse;
+    if (typeof payload !== "object" || payload === null) {
+      return {
+        valid: false,
+        reason: "malformed",
+        message: "ID Token payload is not a JSON object",
+      };
+    }
+    if (!this.config.issuer) {
+      return {
+        valid: false,
+        reason: "invalid_issuer",
+        message: "issuer is not configured",
+        payload,
+      };
+    }
+
+    // クレームの検証
+    return validateIdTokenClaims(payload, {
+      ...options,
+      issuer: this.config.issuer,
+      clientId: this.config.clientId,
+      alg,
+      clockSkew: this.config.clockSkew ?? 60,
+      trustedAudiences: this.config.trustedAudiences,
+    });
   }
 
   /**
-   * IDトークンを検証する
-   * @param idToken IDトークン
-   * @returns 検証結果（true: 有効、false: 無効）
+   * ユーザー情報を取得する
+   * application/jwt のレスポンスは署名（iss・aud を含む）を検証し、暗号化されている場合は userinfoDecryptionKey で復号する
+   * @param accessToken アクセストークン
+   * @param options リクエストの設定（IDトークンの sub を渡した場合は照合する）
+   * @returns ユーザー情報
+   * @throws BearerTokenError アクセストークンが拒否された場合（WWW-Authenticate ヘッダーのエラー）
+   * @throws ProtocolError JWT の検証に失敗した場合、または sub が一致しない場合
+   * @throws ClaimSourceError resolveClaims を指定し、集約クレーム・分散クレームを取得できなかった場合
    */
-  public validateIdToken(idToken: string): boolean {
-    try {
-      // 注: 実際の実装では、JWTの署名検証やクレームの検証が必要です
-      // このサンプル実装では、簡易的な検証のみを行います
+  public async getUserInfo(
+    accessToken: string,
+    options: UserInfoRequestOptions = {},
+  ): Promise<UserInfo> {
+    if (!this.config.userinfoEndpoint) {
+      throw new Error("userinfoEndpoint is not configured");
+    }
 
-      const parts = idToken.split(".");
-      if (parts.length !== 3) {
-        return false;
-      }
+    const response = await this.fetchResource(
+      this.config.userinfoEndpoint,
+      accessToken,
+      {
+        method: options.method,
+        tokenType: options.tokenType,
+      },
+    );
 
-      const payload = JSON.parse(atob(parts[1])) as IDTokenPayload;
+    if (!response.ok) {
+      throw await toResponseError(response, "UserInfo request");
+    }
 
-      // 有効期限の検証
-      const now = Math.floor(Date.now() / 1000);
-      if (payload.exp <= now) {
-        return false;
-      }
+    const contentType = response.headers.get("Content-Type") ?? "";
+    const userInfo = contentType.startsWith("application/jwt")
+      ? await this.readUserInfoJwt(await response.text())
+      : await readJson<UserInfo>(response, "UserInfo");
+    if (typeof userInfo.sub !== "string") {
+      throw new ProtocolError("UserInfo response does not contain sub");
+    }
 
-      // 発行者の検証
-      // 注: 実際の実装では、設定された発行者と比較する必要があります
-      if (!payload.iss) {
-        return false;
+    const resolved = options.resolveClaims
+      ? await resolveClaimSources(userInfo, {
+          getKeySet: (issuer) => this.getClaimsProviderKeySet(issuer),
+          trustedIssuers:
+            this.config.trustedClaimsIssuers ??
+            (this.config.issuer ? [this.config.issuer] : []),
+          http: this.config.http,
+        })
+      : userInfo;
+
+    // IDトークンの sub との照合（OpenID Connect Core 1.0 5.3.2、クレームの解決後の値で行う）
+    if (
+      options.expectedSubject !== undefined &&
+      resolved.sub !== options.expectedSubject
+    ) {
+      throw new ProtocolError(
+        `UserInfo sub mismatch: expected ${options.expectedSubject}, got ${resolved.sub}`,
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * 集約クレーム・分散クレームの JWT の発行者の JWK Set を取得する
+   * OP 以外の発行者（trustedClaimsIssuers に含まれるもの）の場合は Discovery で jwks_uri を取得する
+   * @param issuer JWT の発行者
+   * @returns JWK Set のキャッシュ
+   */
+  private async getClaimsProviderKeySet(issuer: string): Promise<JWKSCache> {
+    if (issuer === this.config.issuer) {
+      if (!this.config.jwksUri) {
+        throw new Error("jwksUri is not configured");
       }
+      this.jwks ??= new JWKSCache(this.config.jwksUri, {
+        http: this.config.http,
+      });
+      return this.jwks;
+    }
 
-      // 対象者の検証
-      if (
-        payload.aud !== this.config.clientId &&
-        (!Array.isArray(payload.aud) ||
-          !payload.aud.includes(this.config.clientId))
-      ) {
-        return false;
+    let keySet = this.claimsProviderJwks.get(issuer);
+    if (!keySet) {
+      const metadata = await fetchProviderMetadata(issuer, {
+        http: this.config.http,
+      });
+      keySet = new JWKSCache(metadata.jwks_uri, { http: this.config.http });
+      this.claimsProviderJwks.set(issuer, keySet);
+    }
+    return keySet;
+  }
+
+  /**
+   * アクセストークンを使用してリソースサーバーにリクエストする
+   * DPoP に束縛されたトークンの場合は Authorization: DPoP と DPoP 証明を送信し、use_dpop_nonce の場合は nonce を付けて再送する
+   * @param url リクエスト先
+   * @param accessToken アクセストークン
+   * @param options リクエストの設定
+   * @returns レスポンス（エラーのステータスの場合もそのまま返す）
+   * @throws NetworkError リクエストを送信できなかった場合
+   */
+  public async fetchResource(
+    url: string,
+    accessToken: string,
+    options: ResourceRequestOptions = {},
+  ): Promise<Response> {
+    const dpop = this.config.dpop;
+    const tokenType = options.tokenType ?? (dpop ? "DPoP" : "Bearer");
+    const send = async () => {
+      const headers: Record<string, string> = { ...options.headers };
+      if (tokenType.toLowerCase() === "dpop") {
+        if (!dpop) {
+          throw new Error("dpop is required to use DPoP-bound access tokens");
+        }
+        headers.Authorization = `DPoP ${accessToken}`;
+        headers.DPoP = await dpop.createProof(
+          options.method ?? "GET",
+          url,
+          accessToken,
+        );
+      } else {
+        headers.Authorization = `Bearer ${accessToken}`;
       }
 
-      // nonceの検証（存在する場合）
-      if (payload.nonce && payload.nonce !== this.nonce) {
-        return false;
+      const init: RequestInit = { headers };
+      if (options.method) {
+        init.method = options.method;
+      }
+      if (options.body !== undefined) {
+        init.body = options.body;
+      }
+      if (options.signal) {
+        init.signal = options.signal;
       }
+      // DPoP 証明は一度しか使用できないため再試行しない
+      return sendRequest(url, init, {
+        ...this.config.http,
+        retryable: headers.DPoP ? false : undefined,
+      });
+    };
 
-      return true;
-    } catch (error) {
-      console.error("ID Token validation error:", error);
-      return false;
+    const response = await send();
+    if (dpop && (await dpop.processResponse(url, response))) {
+      return send();
     }
+    return response;
   }
 
   /**
-   * ユーザー情報を取得する
-   * @param accessToken アクセストークン
+   * JWT 形式の UserInfo レスポンスを検証し、クレームを取得する
+   * JWE の場合は復号し、署名されている場合（Nested JWT を含む）は署名・iss・aud を検証する
+   * @param jwt UserInfo レスポンスの JWT
    * @returns ユーザー情報
+   * @throws ProtocolError 復号または検証に失敗した場合
    */
-  public async getUserInfo(accessToken: string): Promise<UserInfo> {
-    if (!this.config.userinfoEndpoint) {
-      throw new Error("userinfoEndpoint is not configured");
-    }
+  private async readUserInfoJwt(jwt: string): Promise<UserInfo> {
+    let content = jwt.trim();
 
-    const response = await fetch(this.config.userinfoEndpoint, {
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-      },
-    });
+    // JWE（5つの部分からなる）の復号
+    if (content.split(".").length === 5) {
+      const decryptionKey = this.config.userinfoDecryptionKey;
+      if (!decryptionKey) {
+        throw new ProtocolError(
+          "UserInfo response is encrypted, but userinfoDecryptionKey is not configured",
+        );
+      }
+      try {
+        const { plaintext } = await compactDecrypt(content, (header) =>
+          importJWK(decryptionKey, decryptionKey.alg ?? header.alg),
+        );
+        content = new TextDecoder().decode(plaintext);
+      } catch (error) {
+        throw new ProtocolError(
+          `UserInfo response decryption failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
 
-    if (!response.ok) {
-      throw new Error(`UserInfo request failed: ${response.statusText}`);
+      // 署名されていない場合は JSON をそのまま使用する
+      if (content.split(".").length !== 3) {
+        let userInfo: unknown;
+        try {
+          userInfo = JSON.parse(content);
+        } catch {
+          throw new ProtocolError("UserInfo response is not valid JSON");
+        }
+        if (typeof userInfo !== "object" || userInfo === null) {
+          throw new ProtocolError("UserInfo response is not a JSON object");
+        }
+        return userInfo as UserInfo;
+      }
     }
 
-    return (await response.json()) as UserInfo;
+    return (await this.verifyProviderJwt(
+      content,
+      this.config.userinfoSigningAlgValuesSupported,
+      "UserInfo response",
+    )) as UserInfo;
   }
 
   /**
    * 認証レスポンスを処理する
-   * @param url リダイレクトURL（クエリパラメータを含む）
-   * @returns 処理結果
+   * state に対応するトランザクションは一度だけ使用できる
+   * パラメータは response_mode に応じてクエリ・フラグメント・POSTボディから読み取り、それ以外の経路で受け取った場合は拒否する
+   * JWT 形式の response_mode（JARM）の場合は response パラメータの JWT を検証し、そのクレームをパラメータとして扱う
+   * 認証レスポンスとトークンレスポンスのIDトークンは、トランザクションの nonce・max_age で検証する
+   * @param input リダイレクトURL、URLフラグメント、または form_post のリクエストボディ
+   * @returns 処理結果（失敗した場合は error に OAuthError / ProtocolError / NetworkError などを設定する）
    */
-  public async handleCallback(url: string): Promise<{
-    tokenResponse?: TokenResponse;
-    error?: string;
-    errorDescription?: string;
-  }> {
-    const urlObj = new URL(url);
-    const params = new URLSearchParams(urlObj.search);
+  public async handleCallback(input: CallbackInput): Promise<CallbackResult> {
+    let params: URLSearchParams;
+    try {
+      params = await this.readResponseParams(input);
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        return { error };
+      }
+      throw error;
+    }
+
+    // 発行者の検証（RFC 9207、エラーレスポンスを含む。別の OP のレスポンスとの取り違えを防ぐ）
+    const iss = params.get("iss");
+    if (iss !== null && this.config.issuer && iss !== this.config.issuer) {
+      return {
+        error: new ProtocolError(
+          `Authorization response issuer mismatch: expected ${this.config.issuer}, got ${iss}`,
+        ),
+      };
+    }
+    if (
+      iss === null &&
+      this.config.authorizationResponseIssParameterSupported
+    ) {
+      return {
+        error: new ProtocolError("Authorization response does not contain iss"),
+      };
+    }
 
     // エラーチェック
     const error = params.get("error");
     if (error) {
       return {
-        error,
-        errorDescription: params.get("error_description") || undefined,
+        error: new OAuthError({
+          error,
+          error_description: params.get("error_description") ?? undefined,
+          error_uri: params.get("error_uri") ?? undefined,
+        }),
       };
     }
 
-    // stateの検証
+    // stateの検証（トランザクションの取り出し）
     const state = params.get("state");
-    if (!state || state !== this.state) {
+    const transaction = state
+      ? await this.transactionStore.consume(state)
+      : undefined;
+    if (!transaction || transaction.type === "logout") {
+      return { error: new StateMismatchError() };
+    }
+
+    // response_type に応じた必須パラメータの検証
+    const responseTypes = this.getResponseTypes();
+    const code = params.get("code");
+    const idToken = params.get("id_token");
+    const accessToken = params.get("access_token");
+    const tokenType = params.get("token_type");
+    if (responseTypes.has("code") && !code) {
       return {
-        error: "invalid_state",
-        errorDescription: "State parameter does not match",
+        error: new ProtocolError("Authorization code is missing"),
+        transaction,
+      };
+    }
+    if (responseTypes.has("id_token") && !idToken) {
+      return { error: new ProtocolError("ID Token is missing"), transaction };
+    }
+    if (responseTypes.has("token") && !(accessToken && tokenType)) {
+      return {
+        error: new ProtocolError(
+          "Authorization response does not contain access_token and token_type",
+        ),
+        transaction,
       };
     }
 
-    // 認証コードの取得
-    const code = params.get("code");
+    // 認証レスポンスのIDトークンの検証（c_hash / at_hash を含む）
+    let idTokenClaims: IDTokenPayload | undefined;
+    if (idToken) {
+      const result = await this.validateIdToken(idToken, {
+        nonce: transaction.nonce,
+        maxAge: transaction.maxAge,
+        accessToken: accessToken ?? undefined,
+        code: code ?? undefined,
+        requireAtHash: accessToken !== null,
+        requireCHash: code !== null,
+      });
+      if (!result.valid) {
+        return {
+          error: new IdTokenValidationError(result.reason, result.message),
+          transaction,
+        };
+      }
+      idTokenClaims = result.payload;
+    }
+
+    // 認証コードがない場合（インプリシットフロー）は認証レスポンスのトークンを返す
     if (!code) {
+      const expiresIn = params.get("expires_in");
+      const tokenResponse: TokenResponse | undefined =
+        accessToken && tokenType
+          ? {
+              access_token: accessToken,
+              token_type: tokenType,
+              expires_in: expiresIn ? Number(expiresIn) : undefined,
+              scope: params.get("scope") ?? undefined,
+              id_token: idToken ?? undefined,
+            }
+          : undefined;
       return {
-        error: "invalid_response",
-        errorDescription: "Authorization code is missing",
+        tokenResponse,
+        idToken: idToken ?? undefined,
+        idTokenClaims,
+        transaction,
       };
     }
 
     // トークンの取得
+    let tokenResponse: TokenResponse;
     try {
-      const tokenResponse = await this.getToken(code);
-      return { tokenResponse };
+      tokenResponse = await this.getToken(code, transaction.codeVerifier);
     } catch (error) {
+      if (error instanceof OpenIDConnectError) {
+        return { error, transaction };
+      }
+      throw error;
+    }
+    if (!tokenResponse.id_token) {
+      // 認可コードフローでは IDトークンが必須（OpenID Connect Core 1.0 3.1.3.3）
+      if (!idTokenClaims) {
+        return {
+          error: new ProtocolError(
+            "Token response does not contain an ID Token",
+          ),
+          transaction,
+        };
+      }
+      return {
+        tokenResponse,
+        idToken: idToken ?? undefined,
+        idTokenClaims,
+        transaction,
+      };
+    }
+
+    // トークンレスポンスのIDトークンの検証（ハイブリッドフローでは認証レスポンスのIDトークンと iss・sub が一致することも確認する）
+    const result = await this.validateIdToken(tokenResponse.id_token, {
+      nonce: transaction.nonce,
+      maxAge: transaction.maxAge,
+      accessToken: tokenResponse.access_token,
+    });
+    if (!result.valid) {
+      return {
+        error: new IdTokenValidationError(result.reason, result.message),
+        transaction,
+      };
+    }
+    if (
+      idTokenClaims &&
+      (result.payload.iss !== idTokenClaims.iss ||
+        result.payload.sub !== idTokenClaims.sub)
+    ) {
+      return {
+        error: new ProtocolError(
+          "ID Token from the token endpoint does not match the ID Token from the authorization response",
+        ),
+        transaction,
+      };
+    }
+
+    return {
+      tokenResponse,
+      idToken: tokenResponse.id_token,
+      idTokenClaims: result.payload,
+      transaction,
+    };
+  }
+
+  /**
+   * ログアウトリクエストURLを生成する（OpenID Connect RP-Initiated Logout 1.0）
+   * post_logout_redirect_uri を指定した場合は state を生成し、トランザクションとして保存する
+   * @param options ログアウトリクエストごとの設定
+   * @returns ログアウトリクエストURL
+   */
+  public async generateLogoutUrl(
+    options: LogoutRequestOptions = {},
+  ): Promise<string> {
+    if (!this.config.endSessionEndpoint) {
+      throw new Error("endSessionEndpoint is not configured");
+    }
+
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+    });
+    if (options.idTokenHint) {
+      params.append("id_token_hint", options.idTokenHint);
+    }
+
+    // ログアウト後のリダイレクト（state は固定値を使用せず、リクエストごとに生成する）
+    const postLogoutRedirectUri =
+      options.postLogoutRedirectUri ?? this.config.postLogoutRedirectUri;
+    if (postLogoutRedirectUri) {
+      const transaction: LogoutTransaction = {
+        type: "logout",
+        state: this.generateRandomString(),
+        redirectTo: options.redirectTo,
+        createdAt: Date.now(),
+      };
+      params.append("post_logout_redirect_uri", postLogoutRedirectUri);
+      params.append("state", transaction.state);
+      await this.transactionStore.save(transaction);
+    }
+
+    const uiLocales = options.uiLocales ?? this.config.uiLocales;
+    if (uiLocales) {
+      params.append("ui_locales", uiLocales);
+    }
+
+    return `${this.config.endSessionEndpoint}?${params.toString()}`;
+  }
+
+  /**
+   * ログアウト後のリダイレクトを処理する
+   * state に対応するログアウトのトランザクションは一度だけ使用できる
+   * @param input リダイレクトURL、またはクエリパラメータ
+   * @returns 処理結果（state が一致しない場合は error に StateMismatchError を設定する）
+   */
+  public async handleLogoutCallback(
+    input: string | URLSearchParams,
+  ): Promise<LogoutCallbackResult> {
+    const params =
+      typeof input === "string" ? new URL(input).searchParams : input;
+
+    const state = params.get("state");
+    const transaction = state
+      ? await this.transactionStore.consume(state)
+      : undefined;
+    if (transaction?.type !== "logout") {
+      return { error: new StateMismatchError() };
+    }
+
+    return { transaction };
+  }
+
+  /**
+   * バックチャネルログアウトのリクエストを処理する
+   * ログアウトトークンの署名とクレームを検証し、onLogout でアプリケーションのセッションを終了させる
+   * 同じ jti のログアウトトークンは一度だけ受け付ける（onLogout が失敗した場合は再送を受け付ける）
+   * @param input リクエストボディ（logout_token を含む）
+   * @param onLogout 検証済みのクレーム（sub・sid）に対応するセッションを終了する
+   * @returns 処理結果（検証に失敗した場合は error に ProtocolError を設定し、onLogout は呼び出さない）
+   */
+  public async handleBackChannelLogout(
+    input: BackChannelLogoutInput,
+    onLogout: (claims: LogoutTokenClaims) => void | Promise<void>,
+  ): Promise<BackChannelLogoutResult> {
+    const logoutToken = new URLSearchParams(input).get("logout_token");
+    if (!logoutToken) {
       return {
-        error: "token_error",
-        errorDescription:
-          error instanceof Error ? error.message : String(error),
+        error: new ProtocolError(
+          "Back-channel logout request does not contain logout_token",
+        ),
       };
     }
+
+    let claims: LogoutTokenClaims;
+    let jti: string;
+    try {
+      if (!this.config.issuer) {
+        throw new Error("issuer is not configured");
+      }
+      if (!this.config.jwksUri) {
+        throw new Error("jwksUri is not configured");
+      }
+      this.jwks ??= new JWKSCache(this.config.jwksUri, {
+        http: this.config.http,
+      });
+
+      // 署名の検証（IDトークンと同じアルゴリズムを許可する）
+      let payload: Record<string, unknown>;
+      try {
+        const verified = await verifyJws(logoutToken, this.jwks, {
+          algorithms: this.config.idTokenSigningAlgValuesSupported,
+        });
+        payload = JSON.parse(new TextDecoder().decode(verified.payload));
+      } catch (error) {
+        throw new ProtocolError(
+          `Logout token verification failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`,
+        );
+      }
+      if (typeof payload !== "object" || payload === null) {
+        throw new ProtocolError("Logout token payload is not a JSON object");
+      }
+
+      // クレームの検証
+      const clockSkew = this.config.clockSkew ?? 60;
+      const maxAge = this.config.logoutTokenMaxAge ?? 300;
+      claims = validateLogoutTokenClaims(payload, {
+        issuer: this.config.issuer,
+        clientId: this.config.clientId,
+        clockSkew,
+        maxAge,
+      });
+
+      // 再送の検出（受け付ける期間が過ぎるまで jti を保持する）
+      jti = `${claims.iss}:${claims.jti}`;
+      const used = await this.jtiStore.use(
+        jti,
+        claims.iat + maxAge + clockSkew,
+      );
+      if (!used) {
+        throw new ProtocolError("Logout token has already been used");
+      }
+    } catch (error) {
+      if (error instanceof ProtocolError) {
+        return { error };
+      }
+      throw error;
+    }
+
+    // セッションを終了できなかった場合は、OP の再送を受け付けるために jti を解放する
+    try {
+      await onLogout(claims);
+    } catch (error) {
+      await this.jtiStore.release(jti);
+      throw error;
+    }
+    return { claims };
+  }
+
+  /**
+   * response_mode に応じた経路から認証レスポンスのパラメータを読み取る
+   * @param input リダイレクトURL、URLフラグメント、または form_post のリクエストボディ
+   * @returns 認証レスポンスのパラメータ（JARM の場合は検証した JWT のクレーム）
+   * @throws ProtocolError 想定と異なる経路でパラメータを受け取った場合、または JWT の検証に失敗した場合
+   */
+  private async readResponseParams(
+    input: CallbackInput,
+  ): Promise<URLSearchParams> {
+    const responseMode = this.getResponseMode();
+    const params = this.readChannelParams(input, responseMode);
+    if (responseMode === "jwt" || responseMode.endsWith(".jwt")) {
+      return this.verifyAuthorizationResponse(params);
+    }
+    return params;
+  }
+
+  /**
+   * response_mode に応じた経路からパラメータを読み取る
+   * @param input リダイレクトURL、URLフラグメント、または form_post のリクエストボディ
+   * @param responseMode response_mode
+   * @returns 受け取ったパラメータ
+   * @throws ProtocolError 想定と異なる経路でパラメータを受け取った場合
+   */
+  private readChannelParams(
+    input: CallbackInput,
+    responseMode: string,
+  ): URLSearchParams {
+    // JARM の場合は jwt を除いた response_mode の経路で受け取る（jwt のみの場合は response_type のデフォルト）
+    const channel =
+      responseMode === "jwt"
+        ? this.getDefaultResponseMode()
+        : responseMode.replace(/\.jwt$/, "");
+    const hasResponseParams = (params: URLSearchParams) =>
+      AUTHORIZATION_RESPONSE_PARAMS.some((name) => params.has(name));
+    const wrongChannel = (channel: string) =>
+      new ProtocolError(
+        `Authorization response was received via ${channel}, but response_mode is ${responseMode}`,
+      );
+
+    // form_post のリクエストボディ
+    if (typeof input !== "string") {
+      if (channel !== "form_post") {
+        throw wrongChannel("POST body");
+      }
+      return new URLSearchParams(input);
+    }
+
+    // URLフラグメントのみ
+    if (input.startsWith("#")) {
+      if (channel !== "fragment") {
+        throw wrongChannel("fragment");
+      }
+      return new URLSearchParams(input.slice(1));
+    }
+
+    // リダイレクトURL
+    const url = new URL(input);
+    const query = url.searchParams;
+    const fragment = new URLSearchParams(url.hash.slice(1));
+    switch (channel) {
+      case "query":
+        if (hasResponseParams(fragment)) {
+          throw wrongChannel("fragment");
+        }
+        return query;
+      case "fragment":
+        if (hasResponseParams(query)) {
+          throw wrongChannel("query");
+        }
+        return fragment;
+      case "form_post":
+        throw wrongChannel(hasResponseParams(fragment) ? "fragment" : "query");
+      default:
+        throw new ProtocolError(`Unsupported response_mode: ${responseMode}`);
+    }
+  }
+
+  /**
+   * JWT 形式の認証レスポンス（JARM）を検証し、クレームをパラメータに変換する
+   * @param params 受け取ったパラメータ（response に JWT を含む）
+   * @returns JWT に含まれる認証レスポンスのパラメータ
+   * @throws ProtocolError 署名・iss・aud・exp の検証に失敗した場合
+   */
+  private async verifyAuthorizationResponse(
+    params: URLSearchParams,
+  ): Promise<URLSearchParams> {
+    const response = params.get("response");
+    if (!response) {
+      throw new ProtocolError(
+        "Authorization response does not contain response",
+      );
+    }
+
+    // 署名・iss・aud・exp の検証（JARM 4.4）
+    const claims = await this.verifyProviderJwt(
+      response,
+      this.config.authorizationSigningAlgValuesSupported,
+      "Authorization response",
+    );
+    const now = Math.floor(Date.now() / 1000);
+    if (
+      typeof claims.exp !== "number" ||
+      claims.exp + (this.config.clockSkew ?? 60) <= now
+    ) {
+      throw new ProtocolError("Authorization response has expired");
+    }
+
+    // JWT 固有のクレームを除き、通常の認証レスポンスと同じ形式に変換する
+    const result = new URLSearchParams();
+    for (const [name, value] of Object.entries(claims)) {
+      if (name === "aud" || name === "exp" || name === "iat") {
+        continue;
+      }
+      result.set(name, typeof value === "string" ? value : String(value));
+    }
+    return result;
+  }
+
+  /**
+   * OP が署名した JWT の署名を JWKS で検証し、iss と aud を確認する
+   * @param jwt JWT
+   * @param algorithms 許可する署名アルゴリズム
+   * @param description JWT の説明（エラーメッセージ用）
+   * @returns JWT のクレーム
+   * @throws ProtocolError 署名・iss・aud の検証に失敗した場合
+   */
+  private async verifyProviderJwt(
+    jwt: string,
+    algorithms: string[] | undefined,
+    description: string,
+  ): Promise<Record<string, unknown>> {
+    let claims: Record<string, unknown>;
+    try {
+      if (!this.config.jwksUri) {
+        throw new Error("jwksUri is not configured");
+      }
+      this.jwks ??= new JWKSCache(this.config.jwksUri, {
+        http: this.config.http,
+      });
+
+      const verified = await verifyJws(jwt, this.jwks, { algorithms });
+      claims = JSON.parse(new TextDecoder().decode(verified.payload));
+    } catch (error) {
+      throw new ProtocolError(
+        `${description} JWT verification failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+      );
+    }
+    if (typeof claims !== "object" || claims === null) {
+      throw new ProtocolError(
+        `${description} JWT payload is not a JSON object`,
+      );
+    }
+
+    if (claims.iss !== this.config.issuer) {
+      throw new ProtocolError(
+        `${description} issuer mismatch: expected ${this.config.issuer}, got ${String(claims.iss)}`,
+      );
+    }
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(this.config.clientId)) {
+      throw new ProtocolError(
+        `${description} audience does not include the client`,
+      );
+    }
+    return claims;
+  }
+
+  /**
+   * 認証レスポンスの返却方法を取得する
+   * 未設定の場合は response_type のデフォルト（code: query、それ以外: fragment）とする
+   * @returns response_mode
+   */
+  private getResponseMode(): string {
+    return this.config.responseMode || this.getDefaultResponseMode();
+  }
+
+  /**
+   * response_type のデフォルトの response_mode を取得する
+   * @returns code（または none）の場合は query、それ以外は fragment
+   */
+  private getDefaultResponseMode(): string {
+    const responseType = this.config.responseType || "code";
+    return responseType === "code" || responseType === "none"
+      ? "query"
+      : "fragment";
+  }
+
+  /**
+   * response_type に含まれる値を取得する
+   * @returns response_type の値の集合
+   */
+  private getResponseTypes(): Set<string> {
+    return new Set((this.config.responseType || "code").split(" "));
+  }
+
+  /**
+   * 設定値が OP にサポートされているか検証する
+   * @param name 設定の名前（エラーメッセージ用）
+   * @param value 設定値
+   * @param supported OP がサポートする値の一覧（未指定の場合は検証しない）
+   */
+  private assertSupported(
+    name: string,
+    value: string | undefined,
+    supported: string[] | undefined,
+  ): void {
+    if (value === undefined || supported === undefined) {
+      return;
+    }
+    if (!supported.includes(value)) {
+      throw new Error(`${name} "${value}" is not supported by the provider`);
+    }
   }
 
   /**
@@ -361,34 +1725,541 @@ export class OpenIDConnectRP {
 
   /**
    * リフレッシュトークンを使用して新しいトークンを取得する
+   * IDトークンが再発行された場合は OpenID Connect Core 1.0 12.2 に従って検証する
    * @param refreshToken リフレッシュトークン
+   * @param options 更新の設定（更新前のIDトークンを渡した場合は sub などの一致を確認する）
    * @returns トークンレスポンス
+   * @throws IdTokenValidationError 再発行されたIDトークンの検証に失敗した場合
+   * @throws ProtocolError 再発行されたIDトークンが更新前のIDトークンと一致しない場合
    */
-  public async refreshToken(refreshToken: string): Promise<TokenResponse> {
+  public async refreshToken(
+    refreshToken: string,
+    options: RefreshTokenOptions = {},
+  ): Promise<TokenResponse> {
     const params = new URLSearchParams({
       grant_type: "refresh_token",
       refresh_token: refreshToken,
       client_id: this.config.clientId,
     });
 
-    if (this.config.clientSecret) {
-      params.append("client_secret", this.config.clientSecret);
+    const response = await this.requestToken(params, "Token refresh");
+    if (response.id_token) {
+      await this.validateRefreshedIdToken(
+        response.id_token,
+        response.access_token,
+        options.idToken,
+      );
     }
+    return response;
+  }
 
-    const response = await fetch(this.config.tokenEndpoint, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: params.toString(),
+  /**
+   * リフレッシュで再発行されたIDトークンを検証する（OpenID Connect Core 1.0 12.2）
+   * 再発行されたIDトークンは nonce を含まないことがあり、auth_time は元の認証の時刻のため、nonce・max_age は検証しない
+   * @param idToken 再発行されたIDトークン
+   * @param accessToken 同時に発行されたアクセストークン（at_hash の検証に使用する）
+   * @param previousIdToken 更新前のIDトークン
+   * @throws IdTokenValidationError 署名またはクレームの検証に失敗した場合
+   * @throws ProtocolError 更新前のIDトークンと iss・sub・aud・auth_time・nonce が一致しない場合
+   */
+  private async validateRefreshedIdToken(
+    idToken: string,
+    accessToken: string,
+    previousIdToken?: string,
+  ): Promise<void> {
+    const result = await this.verifyIdToken(idToken, { accessToken });
+    if (!result.valid) {
+      throw new IdTokenValidationError(result.reason, result.message);
+    }
+    if (!previousIdToken) {
+      return;
+    }
+
+    const previous = decodeJwt(previousIdToken);
+    const current = result.payload;
+    if (
+      current.iss !== previous.iss ||
+      current.sub !== previous.sub ||
+      JSON.stringify(toArray(current.aud)) !==
+        JSON.stringify(toArray(previous.aud)) ||
+      (previous.auth_time !== undefined &&
+        current.auth_time !== undefined &&
+        current.auth_time !== previous.auth_time) ||
+      (current.nonce !== undefined && current.nonce !== previous.nonce)
+    ) {
+      throw new ProtocolError(
+        "Refreshed ID Token does not match the original ID Token",
+      );
+    }
+  }
+
+  /**
+   * client_credentials グラントでトークンを取得する
+   * 取得したトークンは scope・resource・audience ごとにメモリ上にキャッシュし、有効期限の60秒前まで再利用する
+   * expires_in のないトークンは有効期限を判断できないためキャッシュしない
+   * @param options リクエストの設定
+   * @returns トークンレスポンス（キャッシュした場合の expires_in は残りの有効期間）
+   */
+  public async getClientCredentialsToken(
+    options: ClientCredentialsOptions = {},
+  ): Promise<TokenResponse> {
+    if (this.config.tokenEndpointAuthMethod === "none") {
+      throw new Error(
+        "client_credentials grant requires client authentication",
+      );
+    }
+
+    const resources = toArray(options.resource);
+    const cacheKey = JSON.stringify([
+      options.scope ?? "",
+      resources,
+      options.audience ?? "",
+    ]);
+    const cached = this.clientCredentialsCache.get(cacheKey);
+    if (cached && !cached.expired(60) && !options.forceRefresh) {
+      return cached.toResponse();
+    }
+
+    const params = new URLSearchParams({
+      grant_type: "client_credentials",
+      client_id: this.config.clientId,
+    });
+    if (options.scope) {
+      params.append("scope", options.scope);
+    }
+    for (const resource of resources) {
+      params.append("resource", resource);
+    }
+    if (options.audience) {
+      params.append("audience", options.audience);
+    }
+
+    const tokenResponse = await this.requestToken(
+      params,
+      "Client credentials request",
+    );
+    if (typeof tokenResponse.expires_in === "number") {
+      this.clientCredentialsCache.set(cacheKey, new TokenSet(tokenResponse));
+    } else {
+      this.clientCredentialsCache.delete(cacheKey);
+    }
+    return tokenResponse;
+  }
+
+  /**
+   * client_credentials グラントで取得したトークンのキャッシュを削除する
+   */
+  public clearClientCredentialsCache(): void {
+    this.clientCredentialsCache.clear();
+  }
+
+  /**
+   * トークンを交換する（RFC 8693）
+   * @param options トークン交換のリクエスト
+   * @returns トークン交換のレスポンス
+   * @throws OAuthError OP がエラーレスポンス（invalid_target など）を返した場合
+   */
+  public async exchangeToken(
+    options: TokenExchangeOptions,
+  ): Promise<TokenExchangeResponse> {
+    if (options.actorToken && !options.actorTokenType) {
+      throw new Error(
+        "actorTokenType is required when actorToken is specified",
+      );
+    }
+
+    const params = new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:token-exchange",
+      client_id: this.config.clientId,
+      subject_token: options.subjectToken,
+      subject_token_type: options.subjectTokenType ?? TOKEN_TYPES.accessToken,
+    });
+    if (options.actorToken && options.actorTokenType) {
+      params.append("actor_token", options.actorToken);
+      params.append("actor_token_type", options.actorTokenType);
+    }
+    if (options.requestedTokenType) {
+      params.append("requested_token_type", options.requestedTokenType);
+    }
+    for (const audience of toArray(options.audience)) {
+      params.append("audience", audience);
+    }
+    for (const resource of toArray(options.resource)) {
+      params.append("resource", resource);
+    }
+    if (options.scope) {
+      params.append("scope", options.scope);
+    }
+
+    const tokenResponse = await this.requestToken(
+      params,
+      "Token exchange request",
+    );
+    if (
+      typeof (tokenResponse as Partial<TokenExchangeResponse>)
+        .issued_token_type !== "string"
+    ) {
+      throw new ProtocolError(
+        "Token exchange response does not contain issued_token_type",
+      );
+    }
+    return tokenResponse as TokenExchangeResponse;
+  }
+
+  /**
+   * トークンを無効化する（RFC 7009）
+   * トークンエンドポイントと同じ方法でクライアント認証を行う
+   * @param token アクセストークンまたはリフレッシュトークン
+   * @param tokenTypeHint トークンの種類のヒント
+   * @throws OAuthError OP がエラーレスポンスを返した場合（unsupported_token_type など）
+   */
+  public async revokeToken(
+    token: string,
+    tokenTypeHint?: TokenTypeHint,
+  ): Promise<void> {
+    if (!this.config.revocationEndpoint) {
+      throw new Error("revocationEndpoint is not configured");
+    }
+
+    const params = new URLSearchParams({
+      token,
+      client_id: this.config.clientId,
+    });
+    if (tokenTypeHint) {
+      params.append("token_type_hint", tokenTypeHint);
+    }
+
+    // 無効なトークンの場合も 200 が返される（RFC 7009 2.2）
+    const response = await this.sendAuthenticatedRequest(
+      this.config.revocationEndpoint,
+      params,
+    );
+    if (!response.ok) {
+      throw await toResponseError(response, "Revocation request");
+    }
+  }
+
+  /**
+   * トークンの状態を問い合わせる（RFC 7662）
+   * トークンエンドポイントと同じ方法でクライアント認証を行う
+   * @param token アクセストークンまたはリフレッシュトークン
+   * @param tokenTypeHint トークンの種類のヒント
+   * @returns イントロスペクションのレスポンス（無効なトークンの場合は active: false）
+   */
+  public async introspectToken(
+    token: string,
+    tokenTypeHint?: TokenTypeHint,
+  ): Promise<IntrospectionResponse> {
+    if (!this.config.introspectionEndpoint) {
+      throw new Error("introspectionEndpoint is not configured");
+    }
+
+    const params = new URLSearchParams({
+      token,
+      client_id: this.config.clientId,
+    });
+    if (tokenTypeHint) {
+      params.append("token_type_hint", tokenTypeHint);
+    }
+
+    const response = await this.sendAuthenticatedRequest(
+      this.config.introspectionEndpoint,
+      params,
+      { headers: { Accept: "application/json" } },
+    );
+    if (!response.ok) {
+      throw await toResponseError(response, "Introspection request");
+    }
+
+    const introspection = await readJson<IntrospectionResponse>(
+      response,
+      "Introspection",
+    );
+    if (typeof introspection.active !== "boolean") {
+      throw new ProtocolError(
+        "Introspection response does not contain active",
+        response.status,
+      );
+    }
+    return introspection;
+  }
+
+  /**
+   * デバイス認可リクエストを送信する（RFC 8628 3.1）
+   * レスポンスの user_code と verification_uri（または verification_uri_complete）をユーザーに表示し、pollDeviceToken でトークンを取得する
+   * @param scope スコープ（省略時は config.scope）
+   * @returns デバイス認可レスポンス
+   */
+  public async requestDeviceAuthorization(
+    scope?: string,
+  ): Promise<DeviceAuthorizationResponse> {
+    if (!this.config.deviceAuthorizationEndpoint) {
+      throw new Error("deviceAuthorizationEndpoint is not configured");
+    }
+
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      scope: scope || this.config.scope || "openid profile email",
     });
 
+    const response = await this.sendAuthenticatedRequest(
+      this.config.deviceAuthorizationEndpoint,
+      params,
+      { headers: { Accept: "application/json" } },
+    );
+    if (!response.ok) {
+      throw await toResponseError(response, "Device authorization request");
+    }
+
+    const authorization = await readJson<DeviceAuthorizationResponse>(
+      response,
+      "Device authorization",
+    );
+    if (
+      typeof authorization.device_code !== "string" ||
+      typeof authorization.user_code !== "string" ||
+      typeof authorization.verification_uri !== "string" ||
+      typeof authorization.expires_in !== "number"
+    ) {
+      throw new ProtocolError(
+        "Device authorization response does not contain device_code, user_code, verification_uri and expires_in",
+        response.status,
+      );
+    }
+    return authorization;
+  }
+
+  /**
+   * ユーザーの認可が完了するまでトークンエンドポイントをポーリングする（RFC 8628 3.4/3.5）
+   * authorization_pending の間は interval 秒ごとに、slow_down を受け取った場合は間隔を5秒延ばして再試行する
+   * @param authorization デバイス認可レスポンス
+   * @param options ポーリングの設定
+   * @returns トークンレスポンス（IDトークンを含む場合は検証済み）
+   * @throws OAuthError ユーザーが拒否した場合（access_denied）や device_code の有効期限が切れた場合（expired_token）
+   * @throws IdTokenValidationError IDトークンの検証に失敗した場合
+   */
+  public async pollDeviceToken(
+    authorization: DeviceAuthorizationResponse,
+    options: DevicePollingOptions = {},
+  ): Promise<TokenResponse> {
+    const expiresAt = Date.now() + authorization.expires_in * 1000;
+    let interval = authorization.interval ?? 5;
+
+    let tokenResponse: TokenResponse | undefined;
+    while (!tokenResponse) {
+      await sleep(interval * 1000, options.signal);
+      if (Date.now() >= expiresAt) {
+        throw new OAuthError({
+          error: "expired_token",
+          error_description: "The device_code has expired",
+        });
+      }
+
+      const params = new URLSearchParams({
+        grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+        device_code: authorization.device_code,
+        client_id: this.config.clientId,
+      });
+      try {
+        tokenResponse = await this.requestToken(
+          params,
+          "Device access token request",
+          options.signal,
+        );
+      } catch (error) {
+        if (!(error instanceof OAuthError)) {
+          throw error;
+        }
+        if (error.error === "slow_down") {
+          interval += 5;
+        } else if (error.error !== "authorization_pending") {
+          throw error;
+        }
+      }
+    }
+
+    if (tokenResponse.id_token) {
+      const result = await this.validateIdToken(tokenResponse.id_token, {
+        accessToken: tokenResponse.access_token,
+      });
+      if (!result.valid) {
+        throw new IdTokenValidationError(result.reason, result.message);
+      }
+    }
+    return tokenResponse;
+  }
+
+  /**
+   * トークンエンドポイントにリクエストする
+   * @param params リクエストパラメータ（tokenEndpointAuthMethod に応じたクライアント認証の情報を自動で追加する）
+   * @param description リクエストの説明（エラーメッセージ用）
+   * @param signal リクエストを中止する AbortSignal
+   * @returns トークンレスポンス
+   * @throws OAuthError OP がエラーレスポンスを返した場合
+   * @throws ProtocolError レスポンスが不正な場合
+   * @throws NetworkError リクエストを送信できなかった場合
+   */
+  private async requestToken(
+    params: URLSearchParams,
+    description: string,
+    signal?: AbortSignal,
+  ): Promise<TokenResponse> {
+    const retryable = !NON_RETRYABLE_GRANT_TYPES.includes(
+      params.get("grant_type") ?? "",
+    );
+
+    // DPoP を使用する場合は証明を付与し、use_dpop_nonce の場合は nonce を付けて再送する
+    const dpop = this.config.dpop;
+    const send = () =>
+      this.sendAuthenticatedRequest(this.config.tokenEndpoint, params, {
+        dpop,
+        signal,
+        retryable,
+      });
+    let response = await send();
+    if (
+      dpop &&
+      (await dpop.processResponse(this.config.tokenEndpoint, response))
+    ) {
+      response = await send();
+    }
+
     if (!response.ok) {
-      throw new Error(`Token refresh failed: ${response.statusText}`);
+      throw await toResponseError(response, description);
+    }
+
+    const tokenResponse = await readJson<TokenResponse>(response, description);
+    if (
+      typeof tokenResponse.access_token !== "string" ||
+      typeof tokenResponse.token_type !== "string"
+    ) {
+      throw new ProtocolError(
+        `${description} response does not contain access_token and token_type`,
+        response.status,
+      );
     }
+    return tokenResponse;
+  }
+
+  /**
+   * クライアント認証を行う POST リクエストを送信する
+   * client_assertion の aud はエンドポイントによらずトークンエンドポイントのURLとする
+   * 再試行する場合は client_assertion と DPoP 証明を試行ごとに生成する
+   * @param url リクエスト先
+   * @param params リクエストパラメータ（tokenEndpointAuthMethod に応じたクライアント認証の情報を自動で追加する）
+   * @param options 追加のリクエストヘッダー、DPoP 証明の生成、リクエストを中止する AbortSignal、再試行してよいか（デフォルト: true）
+   * @returns レスポンス
+   * @throws NetworkError リクエストを送信できなかった場合
+   */
+  private async sendAuthenticatedRequest(
+    url: string,
+    params: URLSearchParams,
+    options: {
+      headers?: Record<string, string>;
+      dpop?: DPoPSigner;
+      signal?: AbortSignal;
+      retryable?: boolean;
+    } = {},
+  ): Promise<Response> {
+    const createInit = async (): Promise<RequestInit> => {
+      const body = new URLSearchParams(params);
+      const requestHeaders: Record<string, string> = {
+        "Content-Type": "application/x-www-form-urlencoded",
+        ...options.headers,
+      };
+      if (options.dpop) {
+        requestHeaders.DPoP = await options.dpop.createProof("POST", url);
+      }
+      await applyClientAuthentication(
+        {
+          clientId: this.config.clientId,
+          method: this.config.tokenEndpointAuthMethod || "none",
+          clientSecret: this.config.clientSecret,
+          privateKey: this.config.privateKey,
+          signingAlg: this.config.tokenEndpointAuthSigningAlg,
+        },
+        this.config.tokenEndpoint,
+        body,
+        requestHeaders,
+      );
+      return {
+        method: "POST",
+        headers: requestHeaders,
+        body: body.toString(),
+        signal: options.signal,
+      };
+    };
 
-    return (await response.json()) as TokenResponse;
+    return sendRequest(url, createInit, {
+      ...this.config.http,
+      retryable: options.retryable ?? true,
+    });
+  }
+}
+
+/**
+ * 単一の値または配列を配列に変換する
+ * @param value 値
+ * @returns 配列（undefined の場合は空の配列）
+ */
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
   }
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * プロバイダーメタデータから OP の設定を生成する
+ * @param metadata プロバイダーメタデータ
+ * @returns OP のエンドポイントとサポートする機能
+ */
+function toProviderConfiguration(
+  metadata: ProviderMetadata,
+): Omit<OpenIDConfiguration, "clientId" | "redirectUri"> {
+  return {
+    issuer: metadata.issuer,
+    authorizationEndpoint: metadata.authorization_endpoint,
+    tokenEndpoint: metadata.token_endpoint ?? "",
+    userinfoEndpoint: metadata.userinfo_endpoint,
+    jwksUri: metadata.jwks_uri,
+    endSessionEndpoint: metadata.end_session_endpoint,
+    revocationEndpoint: metadata.revocation_endpoint,
+    introspectionEndpoint: metadata.introspection_endpoint,
+    deviceAuthorizationEndpoint: metadata.device_authorization_endpoint,
+    pushedAuthorizationRequestEndpoint:
+      metadata.pushed_authorization_request_endpoint,
+    requirePushedAuthorizationRequests:
+      metadata.require_pushed_authorization_requests,
+    authorizationResponseIssParameterSupported:
+      metadata.authorization_response_iss_parameter_supported,
+    responseTypesSupported: metadata.response_types_supported,
+    responseModesSupported: metadata.response_modes_supported,
+    idTokenSigningAlgValuesSupported:
+      metadata.id_token_signing_alg_values_supported,
+    authorizationSigningAlgValuesSupported:
+      metadata.authorization_signing_alg_values_supported,
+    userinfoSigningAlgValuesSupported:
+      metadata.userinfo_signing_alg_values_supported,
+    dpopSigningAlgValuesSupported: metadata.dpop_signing_alg_values_supported,
+    tokenEndpointAuthMethodsSupported:
+      metadata.token_endpoint_auth_methods_supported,
+    codeChallengeMethodsSupported: metadata.code_challenge_methods_supported,
+  };
+}
+
+/**
+ * response_type の値を順序に依存しない形に正規化する
+ * @param responseType response_type
+ * @returns 正規化した response_type（code, id_token, token の順に並べる）
+ */
+function normalizeResponseType(responseType: string): string {
+  const order = ["code", "id_token", "token"];
+  return responseType
+    .split(" ")
+    .filter((value) => value !== "")
+    .sort((a, b) => order.indexOf(a) - order.indexOf(b))
+    .join(" ");
 }
 
 // エクスポート
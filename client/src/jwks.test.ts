@@ -0,0 +1,202 @@
+import {
+  type CryptoKey,
+  type JWK,
+  SignJWT,
+  exportJWK,
+  generateKeyPair,
+} from "jose";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { JWKSCache, verifyJws } from "./jwks";
+
+// モックの設定
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe("verifyJws", () => {
+  const jwksUri = "https://auth.example.com/jwks";
+
+  // 鍵ペアを生成し、公開鍵を JWK として返す
+  const createKey = async (alg: string, kid: string) => {
+    const { privateKey, publicKey } = await generateKeyPair(alg);
+    const jwk: JWK = { ...(await exportJWK(publicKey)), kid };
+    return { privateKey, jwk };
+  };
+
+  const sign = (privateKey: CryptoKey, header: { alg: string; kid?: string }) =>
+    new SignJWT({ sub: "user123" }).setProtectedHeader(header).sign(privateKey);
+
+  // JWKS エンドポイントのモック
+  const mockJwksResponse = (keys: JWK[]) => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ keys }),
+    });
+  };
+
+  const decode = (payload: Uint8Array) =>
+    JSON.parse(new TextDecoder().decode(payload));
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+    vi.useRealTimers();
+  });
+
+  it.each(["RS256", "PS256", "ES256", "EdDSA"])(
+    "%s の署名を検証する",
+    async (alg) => {
+      const { privateKey, jwk } = await createKey(alg, "key-1");
+      const jws = await sign(privateKey, { alg, kid: "key-1" });
+      mockJwksResponse([jwk]);
+
+      const result = await verifyJws(jws, new JWKSCache(jwksUri));
+
+      expect(result.header.alg).toBe(alg);
+      expect(decode(result.payload)).toEqual({ sub: "user123" });
+      expect(mockFetch).toHaveBeenCalledWith(jwksUri, {
+        headers: { Accept: "application/json" },
+      });
+    },
+  );
+
+  it("kid がない場合はアルゴリズムに適合する鍵を使用する", async () => {
+    const ec = await createKey("ES256", "ec-key");
+    const rsa = await createKey("RS256", "rsa-key");
+    const jws = await sign(rsa.privateKey, { alg: "RS256" });
+    mockJwksResponse([ec.jwk, rsa.jwk]);
+
+    const result = await verifyJws(jws, new JWKSCache(jwksUri));
+
+    expect(decode(result.payload)).toEqual({ sub: "user123" });
+  });
+
+  it("alg: none のトークンを拒否する", async () => {
+    const { jwk } = await createKey("RS256", "key-1");
+    const header = Buffer.from(JSON.stringify({ alg: "none" })).toString(
+      "base64url",
+    );
+    const payload = Buffer.from(JSON.stringify({ sub: "user123" })).toString(
+      "base64url",
+    );
+    mockJwksResponse([jwk]);
+
+    await expect(
+      verifyJws(`${header}.${payload}.`, new JWKSCache(jwksUri)),
+    ).rejects.toThrow("Unsupported JWS algorithm: none");
+  });
+
+  it("公開鍵を共通鍵として使用する HS256 のトークンを拒否する", async () => {
+    const { jwk } = await createKey("RS256", "key-1");
+    const secret = new TextEncoder().encode(JSON.stringify(jwk));
+    const jws = await new SignJWT({ sub: "attacker" })
+      .setProtectedHeader({ alg: "HS256", kid: "key-1" })
+      .sign(secret);
+    mockJwksResponse([jwk]);
+
+    await expect(verifyJws(jws, new JWKSCache(jwksUri))).rejects.toThrow(
+      "Unsupported JWS algorithm: HS256",
+    );
+  });
+
+  it("alg と鍵の種類が一致しない場合は拒否する", async () => {
+    const rsa = await createKey("RS256", "key-1");
+    const ec = await createKey("ES256", "key-1");
+    const jws = await sign(ec.privateKey, { alg: "ES256", kid: "key-1" });
+    mockJwksResponse([rsa.jwk]);
+
+    await expect(verifyJws(jws, new JWKSCache(jwksUri))).rejects.toThrow(
+      "No matching key found in JWKS (kid: key-1, alg: ES256)",
+    );
+  });
+
+  it("未知の kid の場合は JWKS を一度だけ再取得する", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const oldKey = await createKey("RS256", "old-key");
+    const newKey = await createKey("RS256", "new-key");
+    const jwks = new JWKSCache(jwksUri);
+
+    mockJwksResponse([oldKey.jwk]);
+    await verifyJws(
+      await sign(oldKey.privateKey, { alg: "RS256", kid: "old-key" }),
+      jwks,
+    );
+
+    // 鍵のローテーション後
+    mockJwksResponse([oldKey.jwk, newKey.jwk]);
+    const result = await verifyJws(
+      await sign(newKey.privateKey, { alg: "RS256", kid: "new-key" }),
+      jwks,
+    );
+
+    expect(decode(result.payload)).toEqual({ sub: "user123" });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    // 再取得しても見つからない場合はエラー
+    vi.setSystemTime(Date.now() + 30 * 1000);
+    mockJwksResponse([oldKey.jwk, newKey.jwk]);
+    await expect(
+      verifyJws(
+        await sign(newKey.privateKey, { alg: "RS256", kid: "unknown-key" }),
+        jwks,
+      ),
+    ).rejects.toThrow("No matching key found in JWKS");
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("再取得の間隔内に未知の kid が続いた場合は JWKS を再取得しない", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    const { privateKey, jwk } = await createKey("RS256", "key-1");
+    const jwks = new JWKSCache(jwksUri);
+    const verifyUnknown = async (kid: string) =>
+      expect(
+        verifyJws(await sign(privateKey, { alg: "RS256", kid }), jwks),
+      ).rejects.toThrow("No matching key found in JWKS");
+
+    mockJwksResponse([jwk]);
+    await verifyJws(
+      await sign(privateKey, { alg: "RS256", kid: "key-1" }),
+      jwks,
+    );
+
+    mockJwksResponse([jwk]);
+    await verifyUnknown("unknown-1");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    // 30秒以内の別の未知の kid はキャッシュのみで判定する
+    vi.setSystemTime(Date.now() + 29 * 1000);
+    await verifyUnknown("unknown-2");
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+
+    // 間隔を過ぎた後は再取得する
+    vi.setSystemTime(Date.now() + 1000);
+    mockJwksResponse([jwk]);
+    await verifyUnknown("unknown-3");
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("署名が一致しない場合は拒否する", async () => {
+    const trusted = await createKey("RS256", "key-1");
+    const attacker = await createKey("RS256", "key-1");
+    const jws = await sign(attacker.privateKey, { alg: "RS256", kid: "key-1" });
+    mockJwksResponse([trusted.jwk]);
+
+    await expect(verifyJws(jws, new JWKSCache(jwksUri))).rejects.toThrow(
+      "signature verification failed",
+    );
+  });
+
+  it("JWKS の取得に失敗した場合はエラーをスローする", async () => {
+    const { privateKey } = await createKey("RS256", "key-1");
+    const jws = await sign(privateKey, { alg: "RS256", kid: "key-1" });
+    mockFetch.mockResolvedValueOnce(
+      new Response(null, { status: 404, statusText: "Not Found" }),
+    );
+
+    await expect(verifyJws(jws, new JWKSCache(jwksUri))).rejects.toThrow(
+      "JWKS request failed: Not Found",
+    );
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * JWK Set の取得・キャッシュと JWS の署名検証
+ */
+import {
+  type JWK,
+  type JWSHeaderParameters,
+  compactVerify,
+  decodeProtectedHeader,
+  importJWK,
+} from "jose";
+import { ProtocolError } from "./errors";
+import {
+  type HttpOptions,
+  readJson,
+  sendRequest,
+  toResponseError,
+} from "./http";
+
+// 署名検証に使用できるアルゴリズム（none や HS* などの共通鍵方式は含めない）
+export const SUPPORTED_SIGNING_ALGORITHMS = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+  "EdDSA",
+] as const;
+
+export type SigningAlgorithm = (typeof SUPPORTED_SIGNING_ALGORITHMS)[number];
+
+export interface JSONWebKeySet {
+  keys: JWK[];
+}
+
+export interface JWKSCacheOptions {
+  // キャッシュの有効期間（ミリ秒、デフォルト: 10分）
+  maxAge?: number;
+  // 未知の kid による再取得の間隔（ミリ秒、デフォルト: 30秒）
+  refreshCooldown?: number;
+  // HTTP リクエストの設定
+  http?: HttpOptions;
+}
+
+export interface VerifyJwsOptions {
+  // 許可するアルゴリズム（省略時は SUPPORTED_SIGNING_ALGORITHMS すべて）
+  algorithms?: string[];
+}
+
+export interface VerifiedJws {
+  header: JWSHeaderParameters;
+  payload: Uint8Array;
+}
+
+// ES* アルゴリズムと曲線の対応
+const EC_CURVES: Record<string, string> = {
+  ES256: "P-256",
+  ES384: "P-384",
+  ES512: "P-521",
+};
+
+/**
+ * アルゴリズムが署名検証に使用できるか判定する
+ * @param alg JWS ヘッダーの alg
+ * @returns 使用可能な場合は true
+ */
+export function isSupportedSigningAlgorithm(
+  alg: unknown,
+): alg is SigningAlgorithm {
+  return (
+    typeof alg === "string" &&
+    (SUPPORTED_SIGNING_ALGORITHMS as readonly string[]).includes(alg)
+  );
+}
+
+/**
+ * 鍵がアルゴリズムに適合するか判定する
+ * @param jwk 公開鍵
+ * @param alg JWS ヘッダーの alg
+ * @returns 適合する場合は true
+ */
+function isKeyCompatible(jwk: JWK, alg: SigningAlgorithm): boolean {
+  if (jwk.use && jwk.use !== "sig") {
+    return false;
+  }
+  if (jwk.key_ops && !jwk.key_ops.includes("verify")) {
+    return false;
+  }
+  if (jwk.alg && jwk.alg !== alg) {
+    return false;
+  }
+
+  if (alg.startsWith("RS") || alg.startsWith("PS")) {
+    return jwk.kty === "RSA";
+  }
+  if (alg.startsWith("ES")) {
+    return jwk.kty === "EC" && jwk.crv === EC_CURVES[alg];
+  }
+  // EdDSA
+  return jwk.kty === "OKP" && (jwk.crv === "Ed25519" || jwk.crv === "Ed448");
+}
+
+/**
+ * jwks_uri から取得した JWK Set をキャッシュするクラス
+ */
+export class JWKSCache {
+  private readonly jwksUri: string;
+  private readonly maxAge: number;
+  private readonly refreshCooldown: number;
+  private readonly http?: HttpOptions;
+  private keys?: JWK[];
+  private fetchedAt = 0;
+  private refreshedAt = 0; // 未知の kid により最後に再取得した時刻
+  private pending?: Promise<JWK[]>;
+
+  /**
+   * コンストラクタ
+   * @param jwksUri JWK Set の取得先
+   * @param options キャッシュの設定
+   */
+  constructor(jwksUri: string, options: JWKSCacheOptions = {}) {
+    this.jwksUri = jwksUri;
+    this.maxAge = options.maxAge ?? 10 * 60 * 1000;
+    this.refreshCooldown = options.refreshCooldown ?? 30 * 1000;
+    this.http = options.http;
+  }
+
+  /**
+   * JWS ヘッダーに合致する検証鍵の候補を取得する
+   * kid に一致する鍵がキャッシュにない場合は、鍵のローテーションに備えて一度だけ再取得する
+   * 未知の kid を含む JWS による過剰なリクエストを防ぐため、再取得は refreshCooldown の間隔を空ける
+   * @param header JWS ヘッダー
+   * @returns 検証鍵の候補
+   */
+  public async getKeys(header: JWSHeaderParameters): Promise<JWK[]> {
+    const alg = header.alg;
+    if (!isSupportedSigningAlgorithm(alg)) {
+      throw new Error(`Unsupported JWS algorithm: ${String(alg)}`);
+    }
+
+    const select = (keys: JWK[]) =>
+      keys.filter(
+        (jwk) =>
+          (header.kid === undefined || jwk.kid === header.kid) &&
+          isKeyCompatible(jwk, alg),
+      );
+
+    const expired = Date.now() - this.fetchedAt >= this.maxAge;
+    let candidates = select(await this.load(expired));
+    if (
+      candidates.length === 0 &&
+      !expired &&
+      Date.now() - this.refreshedAt >= this.refreshCooldown
+    ) {
+      this.refreshedAt = Date.now();
+      candidates = select(await this.load(true));
+    }
+    if (candidates.length === 0) {
+      throw new Error(
+        `No matching key found in JWKS (kid: ${header.kid ?? "none"}, alg: ${alg})`,
+      );
+    }
+
+    return candidates;
+  }
+
+  /**
+   * JWK Set を取得する（同時に呼び出された場合は取得を共有する）
+   * @param refresh キャッシュを無視して取得する場合は true
+   * @returns JWK の配列
+   */
+  private async load(refresh: boolean): Promise<JWK[]> {
+    if (this.keys && !refresh) {
+      return this.keys;
+    }
+    if (!this.pending) {
+      this.pending = this.fetchKeys().finally(() => {
+        this.pending = undefined;
+      });
+    }
+    return this.pending;
+  }
+
+  /**
+   * jwks_uri から JWK Set を取得する
+   * @returns JWK の配列
+   */
+  private async fetchKeys(): Promise<JWK[]> {
+    const response = await sendRequest(
+      this.jwksUri,
+      {
+        headers: {
+          Accept: "application/json",
+        },
+      },
+      this.http,
+    );
+
+    if (!response.ok) {
+      throw await toResponseError(response, "JWKS request");
+    }
+
+    const jwks = await readJson<JSONWebKeySet>(response, "JWKS");
+    if (!Array.isArray(jwks.keys)) {
+      throw new ProtocolError("JWKS response is malformed");
+    }
+
+    this.keys = jwks.keys;
+    this.fetchedAt = Date.now();
+    return this.keys;
+  }
+}
+
+/**
+ * JWS の署名を JWK Set で検証する
+ * @param jws コンパクト形式の JWS
+ * @param jwks 検証に使用する JWK Set のキャッシュ
+ * @param options 検証の設定
+ * @returns 検証済みのヘッダーとペイロード
+ */
+export async function verifyJws(
+  jws: string,
+  jwks: JWKSCache,
+  options: VerifyJwsOptions = {},
+): Promise<VerifiedJws> {
+  const header = decodeProtectedHeader(jws);
+  if (options.algorithms && !options.algorithms.includes(String(header.alg))) {
+    throw new Error(`JWS algorithm not allowed: ${String(header.alg)}`);
+  }
+  const candidates = await jwks.getKeys(header);
+  const alg = header.alg as SigningAlgorithm;
+
+  let lastError: unknown;
+  for (const jwk of candidates) {
+    try {
+      const key = await importJWK(jwk, alg);
+      const { payload, protectedHeader } = await compactVerify(jws, key, {
+        algorithms: [alg],
+      });
+      return { header: protectedHeader, payload };
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError instanceof Error
+    ? lastError
+    : new Error("JWS signature verification failed");
+}
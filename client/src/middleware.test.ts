@@ -0,0 +1,443 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Socket } from "node:net";
+import { SignJWT, exportJWK, generateKeyPair } from "jose";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { StateMismatchError } from "./errors";
+import type { OpenIDConfiguration } from "./index";
+import {
+  type AuthMiddleware,
+  type AuthRequest,
+  type SessionData,
+  type SessionStore,
+  createAuthMiddleware,
+} from "./middleware";
+
+// モックの設定
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const secret = "test-session-secret-0123456789abcdef";
+
+// テスト用のリクエスト
+const createRequest = (
+  url: string,
+  options: { method?: string; cookie?: string; body?: string } = {},
+): AuthRequest => {
+  const req: AuthRequest = new IncomingMessage(new Socket());
+  req.method = options.method ?? "GET";
+  req.url = url;
+  req.headers = options.cookie ? { cookie: options.cookie } : {};
+  if (options.body !== undefined) {
+    req.push(options.body);
+    req.push(null);
+  }
+  return req;
+};
+
+// Set-Cookie から次のリクエストの Cookie ヘッダーを組み立てる
+const toCookieHeader = (res: ServerResponse) =>
+  ((res.getHeader("Set-Cookie") as string[] | undefined) ?? [])
+    .filter((cookie) => !cookie.includes("Max-Age=0"))
+    .map((cookie) => cookie.split(";")[0])
+    .join("; ");
+
+describe("createAuthMiddleware", () => {
+  const config: OpenIDConfiguration = {
+    clientId: "test-client-id",
+    clientSecret: "test-client-secret",
+    redirectUri: "https://app.example.com/auth/callback",
+    issuer: "https://auth.example.com",
+    authorizationEndpoint: "https://auth.example.com/authorize",
+    tokenEndpoint: "https://auth.example.com/token",
+    userinfoEndpoint: "https://auth.example.com/userinfo",
+    jwksUri: "https://auth.example.com/jwks",
+    endSessionEndpoint: "https://auth.example.com/logout",
+    postLogoutRedirectUri: "https://app.example.com/logged-out",
+  };
+
+  // テスト用の署名鍵
+  let privateKey: CryptoKey;
+  let publicJwk: Record<string, unknown>;
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair("RS256");
+    privateKey = keyPair.privateKey;
+    publicJwk = { ...(await exportJWK(keyPair.publicKey)), kid: "test-key" };
+  });
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+  });
+
+  // ミドルウェアでリクエストを処理する
+  const handle = async (
+    middleware: AuthMiddleware,
+    req: AuthRequest,
+    handler = middleware.handler,
+  ) => {
+    const res = new ServerResponse(req);
+    const next = vi.fn();
+    await handler(req, res, next);
+    return { res, next };
+  };
+
+  // OP のトークンエンドポイントと JWKS エンドポイントのモック
+  const mockTokenResponse = async (nonce: string) => {
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = await new SignJWT({
+      iss: config.issuer,
+      sub: "user123",
+      aud: config.clientId,
+      nonce,
+      iat: now,
+      exp: now + 300,
+    })
+      .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+      .sign(privateKey);
+    mockFetch.mockResolvedValueOnce(
+      Response.json({
+        access_token: "test-access-token",
+        token_type: "Bearer",
+        expires_in: 3600,
+        refresh_token: "test-refresh-token",
+        id_token: idToken,
+      }),
+    );
+    mockFetch.mockResolvedValueOnce(Response.json({ keys: [publicJwk] }));
+  };
+
+  // ログインしてセッションの Cookie を取得する
+  const login = async (middleware: AuthMiddleware, returnTo = "/") => {
+    const loginResult = await handle(
+      middleware,
+      createRequest(`/login?returnTo=${encodeURIComponent(returnTo)}`),
+    );
+    const authorizationUrl = new URL(
+      loginResult.res.getHeader("Location") as string,
+    );
+    const state = authorizationUrl.searchParams.get("state");
+    const nonce = authorizationUrl.searchParams.get("nonce") as string;
+
+    await mockTokenResponse(nonce);
+    const callbackResult = await handle(
+      middleware,
+      createRequest(`/auth/callback?code=test-code&state=${state}`, {
+        cookie: toCookieHeader(loginResult.res),
+      }),
+    );
+    return { ...callbackResult, cookie: toCookieHeader(callbackResult.res) };
+  };
+
+  it("ログインページは認証リクエストのトランザクションを Cookie に保存して OP にリダイレクトする", async () => {
+    const middleware = createAuthMiddleware(config, { secret });
+    const { res, next } = await handle(
+      middleware,
+      createRequest("/login?returnTo=/dashboard"),
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(302);
+    expect(res.getHeader("Cache-Control")).toBe("no-store");
+    const location = new URL(res.getHeader("Location") as string);
+    expect(location.origin + location.pathname).toBe(
+      config.authorizationEndpoint,
+    );
+    expect(location.searchParams.get("state")).toBeTruthy();
+    expect(toCookieHeader(res)).toMatch(/^oidc_session=/);
+  });
+
+  it("コールバックでトークンを取得し、ユーザーをセッションに保存して returnTo にリダイレクトする", async () => {
+    const middleware = createAuthMiddleware(config, { secret });
+    const { res, next, cookie } = await login(middleware, "/dashboard?tab=1");
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(302);
+    expect(res.getHeader("Location")).toBe("/dashboard?tab=1");
+    expect(mockFetch).toHaveBeenCalledWith(
+      config.tokenEndpoint,
+      expect.objectContaining({ method: "POST" }),
+    );
+
+    // 以降のリクエストでは req.oidc にユーザーとトークンが設定される
+    const req = createRequest("/dashboard", { cookie });
+    const result = await handle(middleware, req);
+    expect(result.next).toHaveBeenCalledWith();
+    expect(req.oidc?.user.sub).toBe("user123");
+    expect(req.oidc?.tokenSet?.accessToken).toBe("test-access-token");
+    expect(req.oidc?.tokenSet?.expired()).toBe(false);
+  });
+
+  it("form_post のコールバックを処理する", async () => {
+    const middleware = createAuthMiddleware(
+      { ...config, responseMode: "form_post" },
+      { secret },
+    );
+    const loginResult = await handle(middleware, createRequest("/login"));
+    const authorizationUrl = new URL(
+      loginResult.res.getHeader("Location") as string,
+    );
+    const state = authorizationUrl.searchParams.get("state");
+    await mockTokenResponse(
+      authorizationUrl.searchParams.get("nonce") as string,
+    );
+
+    const { res, next } = await handle(
+      middleware,
+      createRequest("/auth/callback", {
+        method: "POST",
+        cookie: toCookieHeader(loginResult.res),
+        body: `code=test-code&state=${state}`,
+      }),
+    );
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.getHeader("Location")).toBe("/");
+  });
+
+  it.each([
+    ["別オリジンのURL", "https://evil.example.com/"],
+    ["プロトコル相対URL", "//evil.example.com/"],
+    ["バックスラッシュを含むURL", "/\\evil.example.com/"],
+    ["javascript スキーム", "javascript:alert(1)"],
+    ["正規化すると // で始まるパス", "/.//evil.example.com"],
+    ["正規化すると // で始まるパス（..）", "/..//evil.example.com"],
+    [
+      "// で始まるパスの同一オリジンのURL",
+      "https://app.example.com//evil.example.com",
+    ],
+  ])("returnTo が%sの場合は / にリダイレクトする", async (_, returnTo) => {
+    const middleware = createAuthMiddleware(
+      { ...config, endSessionEndpoint: undefined },
+      { secret },
+    );
+    const { res, cookie } = await login(middleware, returnTo);
+    expect(res.getHeader("Location")).toBe("/");
+
+    // endSessionEndpoint がない場合のログアウトは returnTo に直接リダイレクトする
+    const logoutResult = await handle(
+      middleware,
+      createRequest(`/logout?returnTo=${encodeURIComponent(returnTo)}`, {
+        cookie,
+      }),
+    );
+    expect(logoutResult.res.getHeader("Location")).toBe("/");
+  });
+
+  it("同一オリジンの絶対URLの returnTo はパスに変換する", async () => {
+    const middleware = createAuthMiddleware(config, { secret });
+    const { res } = await login(
+      middleware,
+      "https://app.example.com/settings#profile",
+    );
+
+    expect(res.getHeader("Location")).toBe("/settings#profile");
+  });
+
+  it("state が一致しないコールバックはエラーを next に渡す", async () => {
+    const middleware = createAuthMiddleware(config, { secret });
+    const loginResult = await handle(middleware, createRequest("/login"));
+
+    const { next } = await handle(
+      middleware,
+      createRequest("/auth/callback?code=test-code&state=unknown", {
+        cookie: toCookieHeader(loginResult.res),
+      }),
+    );
+
+    expect(next).toHaveBeenCalledWith(expect.any(StateMismatchError));
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("同じ認証レスポンスは一度だけ処理する", async () => {
+    const middleware = createAuthMiddleware(config, { secret });
+    const loginResult = await handle(middleware, createRequest("/login"));
+    const authorizationUrl = new URL(
+      loginResult.res.getHeader("Location") as string,
+    );
+    const callbackUrl = `/auth/callback?code=test-code&state=${authorizationUrl.searchParams.get("state")}`;
+    await mockTokenResponse(
+      authorizationUrl.searchParams.get("nonce") as string,
+    );
+
+    const first = await handle(
+      middleware,
+      createRequest(callbackUrl, { cookie: toCookieHeader(loginResult.res) }),
+    );
+    expect(first.next).not.toHaveBeenCalled();
+
+    // コールバック後のセッションからはトランザクションが削除されている
+    const replay = await handle(
+      middleware,
+      createRequest(callbackUrl, { cookie: toCookieHeader(first.res) }),
+    );
+    expect(replay.next).toHaveBeenCalledWith(expect.any(StateMismatchError));
+  });
+
+  it("fetchUserInfo を指定した場合はユーザー情報をマージする", async () => {
+    const middleware = createAuthMiddleware(config, {
+      secret,
+      fetchUserInfo: true,
+    });
+    const loginResult = await handle(middleware, createRequest("/login"));
+    const authorizationUrl = new URL(
+      loginResult.res.getHeader("Location") as string,
+    );
+    await mockTokenResponse(
+      authorizationUrl.searchParams.get("nonce") as string,
+    );
+    mockFetch.mockResolvedValueOnce(
+      Response.json({ sub: "user123", name: "Test User" }),
+    );
+
+    const callbackResult = await handle(
+      middleware,
+      createRequest(
+        `/auth/callback?code=test-code&state=${authorizationUrl.searchParams.get("state")}`,
+        { cookie: toCookieHeader(loginResult.res) },
+      ),
+    );
+    const req = createRequest("/", {
+      cookie: toCookieHeader(callbackResult.res),
+    });
+    await handle(middleware, req);
+
+    expect(req.oidc?.user).toMatchObject({
+      sub: "user123",
+      name: "Test User",
+      iss: config.issuer,
+    });
+  });
+
+  describe("requireAuth", () => {
+    it("ログインしていない画面の遷移はログインページにリダイレクトする", async () => {
+      const middleware = createAuthMiddleware(config, { secret });
+      const req = createRequest("/dashboard?tab=1");
+      await handle(middleware, req);
+      const { res, next } = await handle(
+        middleware,
+        req,
+        middleware.requireAuth,
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(302);
+      expect(res.getHeader("Location")).toBe(
+        "/login?returnTo=%2Fdashboard%3Ftab%3D1",
+      );
+    });
+
+    it("ログインしていない GET 以外のリクエストは 401 を返す", async () => {
+      const middleware = createAuthMiddleware(config, { secret });
+      const { res, next } = await handle(
+        middleware,
+        createRequest("/api/items", { method: "POST" }),
+        middleware.requireAuth,
+      );
+
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+    });
+
+    it("ログインしている場合は next を呼び出す", async () => {
+      const middleware = createAuthMiddleware(config, { secret });
+      const { cookie } = await login(middleware);
+      const req = createRequest("/dashboard", { cookie });
+      await handle(middleware, req);
+      const { next } = await handle(middleware, req, middleware.requireAuth);
+
+      expect(next).toHaveBeenCalledWith();
+    });
+  });
+
+  describe("logout", () => {
+    it("セッションを削除して OP のログアウトリクエストURLにリダイレクトし、ログアウト後に returnTo に戻る", async () => {
+      const middleware = createAuthMiddleware(config, { secret });
+      const { cookie } = await login(middleware);
+
+      const logoutResult = await handle(
+        middleware,
+        createRequest("/logout?returnTo=/goodbye", { cookie }),
+      );
+      const logoutUrl = new URL(
+        logoutResult.res.getHeader("Location") as string,
+      );
+      expect(logoutUrl.origin + logoutUrl.pathname).toBe(
+        config.endSessionEndpoint,
+      );
+      expect(logoutUrl.searchParams.get("id_token_hint")).toBeTruthy();
+
+      // ログアウト後の Cookie ではログインしていない
+      const logoutCookie = toCookieHeader(logoutResult.res);
+      const req = createRequest("/", { cookie: logoutCookie });
+      await handle(middleware, req);
+      expect(req.oidc).toBeUndefined();
+
+      const { res, next } = await handle(
+        middleware,
+        createRequest(
+          `/logged-out?state=${logoutUrl.searchParams.get("state")}`,
+          { cookie: logoutCookie },
+        ),
+      );
+      expect(next).not.toHaveBeenCalled();
+      expect(res.getHeader("Location")).toBe("/goodbye");
+    });
+
+    it("endSessionEndpoint がない場合はセッションを削除して returnTo にリダイレクトする", async () => {
+      const middleware = createAuthMiddleware(
+        { ...config, endSessionEndpoint: undefined },
+        { secret },
+      );
+      const { cookie } = await login(middleware);
+
+      const { res } = await handle(
+        middleware,
+        createRequest("/logout", { method: "POST", cookie }),
+      );
+
+      expect(res.getHeader("Location")).toBe("/");
+      expect(res.getHeader("Set-Cookie")).toEqual([
+        expect.stringMatching(/^oidc_session=; Max-Age=0/),
+      ]);
+    });
+  });
+
+  it("対象外のパスは next に渡す", async () => {
+    const middleware = createAuthMiddleware(config, { secret });
+    const { res, next } = await handle(middleware, createRequest("/other"));
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.getHeader("Set-Cookie")).toBeUndefined();
+  });
+
+  it("sessionStore を指定できる", async () => {
+    const sessions = new Map<string, SessionData>();
+    const sessionStore: SessionStore = {
+      get: async () => sessions.get("test"),
+      set: async (_req, _res, session) => {
+        sessions.set("test", session);
+      },
+      destroy: async () => {
+        sessions.delete("test");
+      },
+    };
+    const middleware = createAuthMiddleware(config, { sessionStore });
+    await handle(middleware, createRequest("/login"));
+
+    expect(sessions.get("test")?.transactions).toHaveLength(1);
+  });
+
+  it("secret と sessionStore のどちらもない場合はエラーをスローする", () => {
+    expect(() => createAuthMiddleware(config)).toThrow(
+      "secret is required when sessionStore is not specified",
+    );
+  });
+
+  it("ミドルウェアの処理の外では RP のトランザクションを使用できない", async () => {
+    const middleware = createAuthMiddleware(config, { secret });
+
+    await expect(middleware.rp.generateAuthorizationUrl()).rejects.toThrow(
+      "Transactions are only available while the middleware handles a request",
+    );
+  });
+});
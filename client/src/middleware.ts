@@ -0,0 +1,470 @@
+/**
+ * Node.js の HTTP サーバー・Express 向けのログイン・ログアウト処理
+ * node:async_hooks を使用するため、ブラウザでも動作する index からは再エクスポートしない
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { OpenIDConnectError, ProtocolError } from "./errors";
+import {
+  type AuthorizationRequestOptions,
+  type CallbackInput,
+  type IDTokenPayload,
+  type OpenIDConfiguration,
+  OpenIDConnectRP,
+} from "./index";
+import {
+  CookieSessionStore,
+  type CookieSessionStoreOptions,
+  type SessionData,
+  type SessionStore,
+} from "./session";
+import { TokenSet } from "./tokenSet";
+import type { Transaction, TransactionStore } from "./transactionStore";
+
+export {
+  CookieSessionStore,
+  type CookieSessionStoreOptions,
+  type SessionData,
+  type SessionStore,
+} from "./session";
+
+// 認証済みのユーザー
+export interface AuthContext {
+  user: Record<string, unknown>; // IDトークンのクレーム（fetchUserInfo の場合はユーザー情報をマージしたもの）
+  tokenSet?: TokenSet; // ログイン時に取得したトークン
+}
+
+// ミドルウェアが認証済みのユーザーを設定するリクエスト（Express の Request と互換）
+export interface AuthRequest extends IncomingMessage {
+  originalUrl?: string; // Express でサブパスにマウントされた場合の元のURL
+  body?: unknown; // express.urlencoded() などで解析済みのリクエストボディ
+  oidc?: AuthContext; // ログインしていない場合は undefined
+}
+
+export type NextFunction = (error?: unknown) => void;
+
+export type RequestHandler = (
+  req: AuthRequest,
+  res: ServerResponse,
+  next: NextFunction,
+) => Promise<void>;
+
+export interface AuthMiddlewareOptions {
+  // セッション Cookie の暗号化の秘密（sessionStore を指定しない場合は必須）
+  secret?: string | string[];
+  // セッションの保存先（デフォルト: CookieSessionStore）
+  sessionStore?: SessionStore;
+  // CookieSessionStore の設定
+  cookie?: Omit<CookieSessionStoreOptions, "secret">;
+  loginPath?: string; // デフォルト: /login
+  callbackPath?: string; // デフォルト: redirectUri のパス
+  logoutPath?: string; // デフォルト: /logout
+  // 認証リクエストごとの設定（redirectTo は returnTo から設定する）
+  authorizationRequest?: Omit<AuthorizationRequestOptions, "redirectTo">;
+  // ログイン時にユーザー情報を取得して user にマージする（デフォルト: false）
+  fetchUserInfo?: boolean;
+}
+
+export interface AuthMiddleware {
+  rp: OpenIDConnectRP; // ミドルウェアが使用する RP（トランザクションはミドルウェアの処理中のみ使用できる）
+  handler: RequestHandler; // ログイン・コールバック・ログアウトの処理と req.oidc の設定
+  requireAuth: RequestHandler; // ログインしていない場合はログインページにリダイレクトする
+}
+
+// セッションに保持するトランザクションの最大数（複数のタブで同時にログインする場合など）
+const MAX_PENDING_TRANSACTIONS = 5;
+// トランザクションの有効期間（ミリ秒）
+const TRANSACTION_TTL = 10 * 60 * 1000;
+// form_post のリクエストボディの上限（バイト）
+const MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * 処理中のリクエストのセッションにトランザクションを保存するストア
+ * RP の処理を run の中で呼び出すことで、トランザクションをセッションの配列に出し入れする
+ */
+class SessionTransactionStore implements TransactionStore {
+  private readonly context = new AsyncLocalStorage<Transaction[]>();
+
+  /**
+   * セッションのトランザクションを使用して処理を実行する
+   * @param transactions セッションのトランザクション（save・consume で変更される）
+   * @param fn 実行する処理
+   * @returns 処理の結果
+   */
+  public run<T>(transactions: Transaction[], fn: () => Promise<T>): Promise<T> {
+    return this.context.run(transactions, fn);
+  }
+
+  public async save(transaction: Transaction): Promise<void> {
+    this.current().push(transaction);
+  }
+
+  public async consume(state: string): Promise<Transaction | undefined> {
+    const transactions = this.current();
+    const index = transactions.findIndex(
+      (transaction) => transaction.state === state,
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    return transactions.splice(index, 1)[0];
+  }
+
+  /**
+   * 処理中のリクエストのトランザクションを取得する
+   * @returns セッションのトランザクション
+   * @throws Error ミドルウェアの処理の外で呼び出された場合
+   */
+  private current(): Transaction[] {
+    const transactions = this.context.getStore();
+    if (!transactions) {
+      throw new Error(
+        "Transactions are only available while the middleware handles a request",
+      );
+    }
+    return transactions;
+  }
+}
+
+/**
+ * OpenIDConnectRP を使用したログイン・ログアウトのミドルウェアを作成する
+ * handler は loginPath・callbackPath・logoutPath へのリクエストを処理し、それ以外は next に渡す
+ * 認証リクエストのトランザクションとログイン後のトークンはセッション（デフォルトは暗号化した Cookie）に保存する
+ * @param config RP の設定（transactionStore はミドルウェアのものを使用する）
+ * @param options ミドルウェアの設定
+ * @returns ミドルウェア
+ */
+export function createAuthMiddleware(
+  config: OpenIDConfiguration,
+  options: AuthMiddlewareOptions = {},
+): AuthMiddleware {
+  const sessionStore =
+    options.sessionStore ??
+    (options.secret
+      ? new CookieSessionStore({ ...options.cookie, secret: options.secret })
+      : undefined);
+  if (!sessionStore) {
+    throw new Error("secret is required when sessionStore is not specified");
+  }
+
+  const transactionStore = new SessionTransactionStore();
+  const rp = new OpenIDConnectRP({ ...config, transactionStore });
+
+  // returnTo の検証とリクエストURLの組み立てには redirectUri のオリジンを使用する
+  const origin = new URL(config.redirectUri).origin;
+  const loginPath = options.loginPath ?? "/login";
+  const callbackPath =
+    options.callbackPath ?? new URL(config.redirectUri).pathname;
+  const logoutPath = options.logoutPath ?? "/logout";
+  const logoutCallbackPath = config.postLogoutRedirectUri
+    ? new URL(config.postLogoutRedirectUri).pathname
+    : undefined;
+
+  /**
+   * ログイン: 認証リクエストのトランザクションをセッションに保存して OP にリダイレクトする
+   */
+  const login = async (
+    req: AuthRequest,
+    res: ServerResponse,
+    url: URL,
+    session: SessionData,
+  ): Promise<void> => {
+    const redirectTo = sanitizeReturnTo(
+      url.searchParams.get("returnTo"),
+      origin,
+    );
+    const transactions = pendingTransactions(session.transactions);
+    const authorizationUrl = await transactionStore.run(transactions, () =>
+      rp.generateAuthorizationUrl({
+        ...options.authorizationRequest,
+        redirectTo,
+      }),
+    );
+    await sessionStore.set(req, res, {
+      ...session,
+      transactions: transactions.slice(-MAX_PENDING_TRANSACTIONS),
+    });
+    redirect(res, authorizationUrl);
+  };
+
+  /**
+   * コールバック: 認証レスポンスを処理し、ユーザーとトークンをセッションに保存する
+   */
+  const callback = async (
+    req: AuthRequest,
+    res: ServerResponse,
+    url: URL,
+    session: SessionData,
+  ): Promise<void> => {
+    const input = req.method === "POST" ? await readFormBody(req) : url.href;
+    const transactions = pendingTransactions(session.transactions);
+
+    let user: Record<string, unknown>;
+    let redirectTo: string | undefined;
+    let tokens: SessionData["tokens"];
+    try {
+      const result = await transactionStore.run(transactions, () =>
+        rp.handleCallback(input),
+      );
+      if (result.error) {
+        throw result.error;
+      }
+      tokens = result.tokenResponse;
+      redirectTo = result.transaction?.redirectTo;
+
+      // 成功した場合は handleCallback で検証済みのIDトークンが必ず設定される
+      const claims = result.idTokenClaims as IDTokenPayload;
+
+      user = { ...claims };
+      if (options.fetchUserInfo && tokens) {
+        const userInfo = await rp.getUserInfo(tokens.access_token, {
+          expectedSubject: claims.sub,
+          tokenType: tokens.token_type,
+        });
+        user = { ...claims, ...userInfo };
+      }
+    } catch (error) {
+      // 使用済みのトランザクションを削除したセッションを保存する
+      await sessionStore.set(req, res, { ...session, transactions });
+      throw error;
+    }
+
+    // ログイン前のセッション（ユーザー・トークン）は引き継がない
+    await sessionStore.set(req, res, {
+      user,
+      tokens,
+      receivedAt: Date.now(),
+      transactions: transactions.filter(
+        (transaction) => transaction.type !== "logout",
+      ),
+    });
+    req.oidc = {
+      user,
+      tokenSet: tokens ? new TokenSet(tokens) : undefined,
+    };
+    redirect(res, sanitizeReturnTo(redirectTo, origin));
+  };
+
+  /**
+   * ログアウト: セッションを削除し、OP のログアウトリクエストURLにリダイレクトする
+   */
+  const logout = async (
+    req: AuthRequest,
+    res: ServerResponse,
+    url: URL,
+    session: SessionData,
+  ): Promise<void> => {
+    const redirectTo = sanitizeReturnTo(
+      url.searchParams.get("returnTo"),
+      origin,
+    );
+    req.oidc = undefined;
+
+    // リフレッシュトークンは無効化を試みる（失敗してもログアウトは続ける）
+    const refreshToken = session.tokens?.refresh_token;
+    if (refreshToken && config.revocationEndpoint) {
+      try {
+        await rp.revokeToken(refreshToken, "refresh_token");
+      } catch (error) {
+        if (!(error instanceof OpenIDConnectError)) {
+          throw error;
+        }
+      }
+    }
+
+    if (!config.endSessionEndpoint) {
+      await sessionStore.destroy(req, res);
+      redirect(res, redirectTo);
+      return;
+    }
+
+    // ログアウト後のリダイレクトの state はセッションに残す
+    const transactions: Transaction[] = [];
+    const logoutUrl = await transactionStore.run(transactions, () =>
+      rp.generateLogoutUrl({
+        idTokenHint: session.tokens?.id_token,
+        redirectTo,
+      }),
+    );
+    if (transactions.length > 0) {
+      await sessionStore.set(req, res, { transactions });
+    } else {
+      await sessionStore.destroy(req, res);
+    }
+    redirect(res, logoutUrl);
+  };
+
+  /**
+   * ログアウト後のリダイレクト: state を検証し、ログアウト前に指定した遷移先にリダイレクトする
+   */
+  const logoutCallback = async (
+    req: AuthRequest,
+    res: ServerResponse,
+    url: URL,
+    session: SessionData,
+  ): Promise<void> => {
+    const transactions = pendingTransactions(session.transactions);
+    const result = await transactionStore.run(transactions, () =>
+      rp.handleLogoutCallback(url.searchParams),
+    );
+    if (transactions.length > 0) {
+      await sessionStore.set(req, res, { ...session, transactions });
+    } else {
+      await sessionStore.destroy(req, res);
+    }
+    if (result.error) {
+      throw result.error;
+    }
+    redirect(res, sanitizeReturnTo(result.transaction?.redirectTo, origin));
+  };
+
+  const handler: RequestHandler = async (req, res, next) => {
+    try {
+      const url = requestUrl(req, origin);
+      const session = (await sessionStore.get(req)) ?? {};
+      if (session.user) {
+        req.oidc = {
+          user: session.user,
+          tokenSet: session.tokens
+            ? new TokenSet(session.tokens, session.receivedAt)
+            : undefined,
+        };
+      }
+
+      const method = req.method ?? "GET";
+      if (url.pathname === loginPath && method === "GET") {
+        await login(req, res, url, session);
+      } else if (
+        url.pathname === callbackPath &&
+        (method === "GET" || method === "POST")
+      ) {
+        await callback(req, res, url, session);
+      } else if (
+        url.pathname === logoutPath &&
+        (method === "GET" || method === "POST")
+      ) {
+        await logout(req, res, url, session);
+      } else if (
+        url.pathname === logoutCallbackPath &&
+        method === "GET" &&
+        url.searchParams.has("state")
+      ) {
+        await logoutCallback(req, res, url, session);
+      } else {
+        next();
+      }
+    } catch (error) {
+      next(error);
+    }
+  };
+
+  const requireAuth: RequestHandler = async (req, res, next) => {
+    if (req.oidc) {
+      next();
+      return;
+    }
+
+    // 画面の遷移はログイン後に元のページに戻れるようにし、それ以外は 401 を返す
+    if (req.method === "GET" || req.method === "HEAD") {
+      const url = requestUrl(req, origin);
+      const params = new URLSearchParams({
+        returnTo: `${url.pathname}${url.search}`,
+      });
+      redirect(res, `${loginPath}?${params}`);
+      return;
+    }
+    res.statusCode = 401;
+    res.end();
+  };
+
+  return { rp, handler, requireAuth };
+}
+
+/**
+ * ログイン・ログアウト後の遷移先を同一オリジンのパスに制限する（オープンリダイレクトの防止）
+ * @param returnTo 遷移先（相対パス、または同一オリジンのURL）
+ * @param origin アプリケーションのオリジン
+ * @returns 遷移先のパス（同一オリジンでない場合は /）
+ */
+function sanitizeReturnTo(
+  returnTo: string | null | undefined,
+  origin: string,
+): string {
+  if (!returnTo) {
+    return "/";
+  }
+  try {
+    const url = new URL(returnTo, origin);
+    // パスが // または /\ で始まる場合はプロトコル相対URLとして別オリジンに遷移するため受け付けない
+    if (url.origin !== origin || /^\/[/\\]/.test(url.pathname)) {
+      return "/";
+    }
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return "/";
+  }
+}
+
+/**
+ * 有効期限内のトランザクションを取得する
+ * @param transactions セッションのトランザクション
+ * @returns 有効期限内のトランザクション（新しい配列）
+ */
+function pendingTransactions(
+  transactions: Transaction[] | undefined,
+): Transaction[] {
+  const now = Date.now();
+  return (transactions ?? []).filter(
+    (transaction) => transaction.createdAt + TRANSACTION_TTL > now,
+  );
+}
+
+/**
+ * リクエストURLを組み立てる
+ * @param req リクエスト
+ * @param origin アプリケーションのオリジン
+ * @returns リクエストURL
+ */
+function requestUrl(req: AuthRequest, origin: string): URL {
+  return new URL(req.originalUrl ?? req.url ?? "/", origin);
+}
+
+/**
+ * form_post のリクエストボディを読み込む
+ * @param req リクエスト
+ * @returns リクエストボディのパラメータ
+ * @throws ProtocolError リクエストボディが上限を超える場合
+ */
+async function readFormBody(req: AuthRequest): Promise<CallbackInput> {
+  // express.urlencoded() などで解析済みの場合
+  if (typeof req.body === "object" && req.body !== null) {
+    return Object.fromEntries(
+      Object.entries(req.body).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string",
+      ),
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new ProtocolError("Request body is too large");
+    }
+    chunks.push(chunk);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf8"));
+}
+
+/**
+ * リダイレクトのレスポンスを返す
+ * @param res レスポンス
+ * @param location リダイレクト先
+ */
+function redirect(res: ServerResponse, location: string): void {
+  res.statusCode = 302;
+  res.setHeader("Location", location);
+  res.setHeader("Cache-Control", "no-store");
+  res.end();
+}
@@ -0,0 +1,32 @@
+import { createHash } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { calculateCodeChallenge, generateCodeVerifier } from "./pkce";
+
+describe("pkce", () => {
+  describe("generateCodeVerifier", () => {
+    it("43文字のbase64url文字列を生成する", () => {
+      const codeVerifier = generateCodeVerifier();
+
+      expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(generateCodeVerifier()).not.toBe(codeVerifier);
+    });
+  });
+
+  describe("calculateCodeChallenge", () => {
+    const codeVerifier = generateCodeVerifier();
+
+    it("S256のcode_challengeを計算する", async () => {
+      const expected = createHash("sha256")
+        .update(codeVerifier)
+        .digest("base64url");
+
+      expect(await calculateCodeChallenge(codeVerifier)).toBe(expected);
+    });
+
+    it("plainの場合はcode_verifierをそのまま返す", async () => {
+      expect(await calculateCodeChallenge(codeVerifier, "plain")).toBe(
+        codeVerifier,
+      );
+    });
+  });
+});
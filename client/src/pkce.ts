@@ -0,0 +1,37 @@
+/**
+ * PKCE (Proof Key for Code Exchange, RFC 7636) のユーティリティ
+ */
+import { base64url } from "jose";
+
+export type CodeChallengeMethod = "S256" | "plain";
+
+/**
+ * code_verifier を生成する
+ * @returns 32バイトの乱数を base64url エンコードした文字列（43文字）
+ */
+export function generateCodeVerifier(): string {
+  const randomValues = new Uint8Array(32);
+  globalThis.crypto.getRandomValues(randomValues);
+  return base64url.encode(randomValues);
+}
+
+/**
+ * code_verifier から code_challenge を計算する
+ * @param codeVerifier code_verifier
+ * @param method code_challenge_method（デフォルト: S256）
+ * @returns code_challenge
+ */
+export async function calculateCodeChallenge(
+  codeVerifier: string,
+  method: CodeChallengeMethod = "S256",
+): Promise<string> {
+  if (method === "plain") {
+    return codeVerifier;
+  }
+
+  const digest = await globalThis.crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(codeVerifier),
+  );
+  return base64url.encode(new Uint8Array(digest));
+}
@@ -0,0 +1,283 @@
+import {
+  type CryptoKey,
+  type JWK,
+  SignJWT,
+  exportJWK,
+  generateKeyPair,
+} from "jose";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { clearProviderMetadataCache } from "./discovery";
+import { ProtocolError, StateMismatchError } from "./errors";
+import type { OpenIDConfiguration } from "./index";
+import { ProviderRegistry } from "./providerRegistry";
+import { MemoryTransactionStore } from "./transactionStore";
+
+// モックの設定
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+// テスト用の OP の設定
+const providerConfig = (host: string): OpenIDConfiguration => ({
+  clientId: `${host}-client-id`,
+  clientSecret: `${host}-client-secret`,
+  redirectUri: "https://app.example.com/callback",
+  issuer: `https://${host}.example.com`,
+  authorizationEndpoint: `https://${host}.example.com/authorize`,
+  tokenEndpoint: `https://${host}.example.com/token`,
+  jwksUri: `https://${host}.example.com/jwks`,
+  endSessionEndpoint: `https://${host}.example.com/logout`,
+  postLogoutRedirectUri: "https://app.example.com/logged-out",
+});
+
+describe("ProviderRegistry", () => {
+  let registry: ProviderRegistry;
+
+  // OP の署名鍵（すべてのプロバイダーで共用する）
+  let privateKey: CryptoKey;
+  let publicJwk: JWK;
+
+  beforeAll(async () => {
+    const keyPair = await generateKeyPair("RS256");
+    privateKey = keyPair.privateKey;
+    publicJwk = { ...(await exportJWK(keyPair.publicKey)), kid: "test-key" };
+  });
+
+  // 認証リクエストに対応するIDトークンを含むトークンレスポンスと JWKS のモック
+  const mockTokenResponse = async (
+    host: string,
+    authorizationUrl: URL,
+    accessToken = "token",
+  ) => {
+    const idToken = await new SignJWT({
+      sub: "user123",
+      nonce: authorizationUrl.searchParams.get("nonce"),
+    })
+      .setProtectedHeader({ alg: "RS256", kid: "test-key" })
+      .setIssuer(`https://${host}.example.com`)
+      .setAudience(`${host}-client-id`)
+      .setIssuedAt()
+      .setExpirationTime("1h")
+      .sign(privateKey);
+    mockFetch.mockResolvedValueOnce(
+      Response.json({
+        access_token: accessToken,
+        token_type: "Bearer",
+        id_token: idToken,
+      }),
+    );
+    mockFetch.mockResolvedValueOnce(Response.json({ keys: [publicJwk] }));
+  };
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    registry = new ProviderRegistry();
+    registry.register("google", providerConfig("google"));
+    registry.register("azure", providerConfig("azure"));
+  });
+
+  // ログインして認証レスポンスのリダイレクトURLを組み立てる
+  const login = async (name: string, params: Record<string, string> = {}) => {
+    const authorizationUrl = new URL(
+      await registry.generateAuthorizationUrl(name, { redirectTo: "/home" }),
+    );
+    const callbackParams = new URLSearchParams({
+      code: "test-code",
+      state: authorizationUrl.searchParams.get("state") as string,
+      ...params,
+    });
+    return {
+      authorizationUrl,
+      callbackUrl: `https://app.example.com/callback?${callbackParams}`,
+    };
+  };
+
+  it("プロバイダー名を指定して認証リクエストURLを生成する", async () => {
+    const { authorizationUrl } = await login("azure");
+
+    expect(authorizationUrl.origin + authorizationUrl.pathname).toBe(
+      "https://azure.example.com/authorize",
+    );
+    expect(authorizationUrl.searchParams.get("client_id")).toBe(
+      "azure-client-id",
+    );
+  });
+
+  it("登録されていないプロバイダー名はエラーをスローする", async () => {
+    await expect(registry.generateAuthorizationUrl("github")).rejects.toThrow(
+      "Unknown provider: github",
+    );
+    expect(() => registry.get("github")).toThrow("Unknown provider: github");
+  });
+
+  it("state から認証リクエストを送信したプロバイダーを特定してコールバックを処理する", async () => {
+    await login("google");
+    const { authorizationUrl, callbackUrl } = await login("azure", {
+      iss: "https://azure.example.com",
+    });
+    await mockTokenResponse("azure", authorizationUrl, "azure-token");
+
+    const result = await registry.handleCallback(callbackUrl);
+
+    expect(result.error).toBeUndefined();
+    expect(result.provider).toBe("azure");
+    expect(result.tokenResponse?.access_token).toBe("azure-token");
+    expect(result.idTokenClaims?.iss).toBe("https://azure.example.com");
+    expect(result.transaction).toMatchObject({
+      provider: "azure",
+      redirectTo: "/home",
+    });
+    expect(mockFetch).toHaveBeenCalledWith(
+      "https://azure.example.com/token",
+      expect.anything(),
+    );
+  });
+
+  it("iss が state のプロバイダーと異なる場合は拒否する（mix-up 攻撃の防止）", async () => {
+    const { callbackUrl } = await login("azure", {
+      iss: "https://google.example.com",
+    });
+
+    const result = await registry.handleCallback(callbackUrl);
+
+    expect(result.error).toBeInstanceOf(ProtocolError);
+    expect(result.error?.message).toBe(
+      "Authorization response issuer mismatch: expected https://azure.example.com, got https://google.example.com",
+    );
+    expect(result.provider).toBe("azure");
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    // 拒否した認証レスポンスの state は再度使用できない
+    const replay = await registry.handleCallback(
+      callbackUrl.replace(/&iss=[^&]+/, ""),
+    );
+    expect(replay.error).toBeInstanceOf(StateMismatchError);
+  });
+
+  it("state に対応するトランザクションがない場合は StateMismatchError を返す", async () => {
+    const result = await registry.handleCallback(
+      "https://app.example.com/callback?code=test-code&state=unknown",
+    );
+
+    expect(result.error).toBeInstanceOf(StateMismatchError);
+    expect(result.provider).toBeUndefined();
+  });
+
+  it("同じ認証レスポンスは一度だけ処理する", async () => {
+    const { authorizationUrl, callbackUrl } = await login("google");
+    await mockTokenResponse("google", authorizationUrl);
+
+    expect((await registry.handleCallback(callbackUrl)).error).toBeUndefined();
+    expect((await registry.handleCallback(callbackUrl)).error).toBeInstanceOf(
+      StateMismatchError,
+    );
+    expect(mockFetch).toHaveBeenCalledTimes(2); // トークン・JWKS
+  });
+
+  it("form_post の認証レスポンスを振り分ける", async () => {
+    registry.register("keycloak", {
+      ...providerConfig("keycloak"),
+      responseMode: "form_post",
+    });
+    const { authorizationUrl } = await login("keycloak");
+    await mockTokenResponse("keycloak", authorizationUrl);
+
+    const result = await registry.handleCallback({
+      code: "test-code",
+      state: authorizationUrl.searchParams.get("state") as string,
+    });
+
+    expect(result.provider).toBe("keycloak");
+    expect(result.error).toBeUndefined();
+  });
+
+  it("プロバイダーの RP は別のプロバイダーのトランザクションを使用しない", async () => {
+    const { callbackUrl } = await login("azure");
+
+    const result = await registry.get("google").handleCallback(callbackUrl);
+
+    expect(result.error).toBeInstanceOf(StateMismatchError);
+  });
+
+  it("トランザクションを共有のストアに保存する", async () => {
+    const transactionStore = new MemoryTransactionStore();
+    const save = vi.spyOn(transactionStore, "save");
+    const shared = new ProviderRegistry({ transactionStore });
+    shared.register("google", providerConfig("google"));
+
+    await shared.generateAuthorizationUrl("google");
+
+    expect(save).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: "google" }),
+    );
+  });
+
+  it("ログアウト後のリダイレクトをプロバイダーに振り分ける", async () => {
+    const logoutUrl = new URL(
+      await registry.generateLogoutUrl("google", { redirectTo: "/bye" }),
+    );
+    expect(logoutUrl.origin).toBe("https://google.example.com");
+
+    const result = await registry.handleLogoutCallback(
+      `https://app.example.com/logged-out?state=${logoutUrl.searchParams.get("state")}`,
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result.provider).toBe("google");
+    expect(result.transaction?.redirectTo).toBe("/bye");
+  });
+
+  it("ログインのトランザクションの state はログアウト後のリダイレクトに使用できない", async () => {
+    const { authorizationUrl } = await login("google");
+
+    const result = await registry.handleLogoutCallback(
+      authorizationUrl.searchParams,
+    );
+
+    expect(result.error).toBeInstanceOf(StateMismatchError);
+  });
+
+  it("Discovery で取得した設定でプロバイダーを登録する", async () => {
+    clearProviderMetadataCache();
+    mockFetch.mockResolvedValueOnce(
+      Response.json({
+        issuer: "https://okta.example.com",
+        authorization_endpoint: "https://okta.example.com/authorize",
+        token_endpoint: "https://okta.example.com/token",
+        jwks_uri: "https://okta.example.com/jwks",
+        response_types_supported: ["code"],
+        subject_types_supported: ["public"],
+        id_token_signing_alg_values_supported: ["RS256"],
+        authorization_response_iss_parameter_supported: true,
+      }),
+    );
+
+    await registry.discover("okta", "https://okta.example.com", {
+      clientId: "okta-client-id",
+      redirectUri: "https://app.example.com/callback",
+    });
+    expect(registry.names()).toEqual(["google", "azure", "okta"]);
+
+    // OP が iss パラメータをサポートする場合は iss のない認証レスポンスを拒否する
+    const { callbackUrl } = await login("okta");
+    const result = await registry.handleCallback(callbackUrl);
+    expect(result.provider).toBe("okta");
+    expect(result.error?.message).toBe(
+      "Authorization response does not contain iss",
+    );
+  });
+
+  it("同じ名前のプロバイダーは登録できない", () => {
+    expect(() => registry.register("google", providerConfig("google"))).toThrow(
+      'Provider "google" is already registered',
+    );
+  });
+
+  it("issuer のないプロバイダーは登録できない", () => {
+    expect(() =>
+      registry.register("legacy", {
+        ...providerConfig("legacy"),
+        issuer: undefined,
+      }),
+    ).toThrow('issuer is required for provider "legacy"');
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * 複数の OP を名前で切り替えて使用するためのレジストリ
+ */
+import { decodeJwt } from "jose";
+import { StateMismatchError } from "./errors";
+import {
+  type AuthorizationRequestOptions,
+  type CallbackInput,
+  type CallbackResult,
+  type LogoutCallbackResult,
+  type LogoutRequestOptions,
+  type OpenIDClientOptions,
+  type OpenIDConfiguration,
+  OpenIDConnectRP,
+} from "./index";
+import {
+  MemoryTransactionStore,
+  type Transaction,
+  type TransactionStore,
+} from "./transactionStore";
+
+export interface ProviderRegistryOptions {
+  // すべてのプロバイダーで共有するトランザクションの保存先（デフォルト: MemoryTransactionStore）
+  transactionStore?: TransactionStore;
+}
+
+// プロバイダーを特定した認証レスポンスの処理結果
+export interface ProviderCallbackResult extends CallbackResult {
+  provider?: string; // 認証レスポンスを処理したプロバイダー名（特定できなかった場合は undefined）
+}
+
+// プロバイダーを特定したログアウト後のリダイレクトの処理結果
+export interface ProviderLogoutCallbackResult extends LogoutCallbackResult {
+  provider?: string; // ログアウトリクエストを送信したプロバイダー名（特定できなかった場合は undefined）
+}
+
+/**
+ * プロバイダー名を付けて共有のストアにトランザクションを保存するストア
+ * レジストリが state から取り出したトランザクションは claim で受け渡し、RP の consume で返す
+ */
+class ProviderTransactionStore implements TransactionStore {
+  private readonly store: TransactionStore;
+  private readonly provider: string;
+  private readonly claimed = new Map<string, Transaction>(); // レジストリが取り出したトランザクション
+
+  /**
+   * コンストラクタ
+   * @param store 共有のトランザクションの保存先
+   * @param provider プロバイダー名
+   */
+  constructor(store: TransactionStore, provider: string) {
+    this.store = store;
+    this.provider = provider;
+  }
+
+  public async save(transaction: Transaction): Promise<void> {
+    await this.store.save({ ...transaction, provider: this.provider });
+  }
+
+  public async consume(state: string): Promise<Transaction | undefined> {
+    const claimed = this.claimed.get(state);
+    if (claimed) {
+      this.claimed.delete(state);
+      return claimed;
+    }
+
+    // 別のプロバイダーのトランザクションは使用しない
+    const transaction = await this.store.consume(state);
+    return transaction?.provider === this.provider ? transaction : undefined;
+  }
+
+  /**
+   * レジストリが取り出したトランザクションを RP に受け渡す
+   * @param transaction トランザクション
+   */
+  public claim(transaction: Transaction): void {
+    this.claimed.set(transaction.state, transaction);
+  }
+
+  /**
+   * RP が使用しなかったトランザクションを破棄する
+   * @param state state
+   */
+  public release(state: string): void {
+    this.claimed.delete(state);
+  }
+}
+
+// 登録済みのプロバイダー
+interface Provider {
+  rp: OpenIDConnectRP;
+  transactions: ProviderTransactionStore;
+}
+
+/**
+ * 名前を付けた複数の OP の設定を保持し、ログインとコールバックの処理を振り分ける
+ * トランザクションにプロバイダー名を保存し、コールバックでは state から処理する RP を特定する
+ * 認証レスポンスに iss パラメータ（RFC 9207）がある場合は、特定した RP の issuer と一致することを確認する
+ */
+export class ProviderRegistry {
+  private readonly transactionStore: TransactionStore;
+  private readonly providers = new Map<string, Provider>();
+
+  /**
+   * コンストラクタ
+   * @param options レジストリの設定
+   */
+  constructor(options: ProviderRegistryOptions = {}) {
+    this.transactionStore =
+      options.transactionStore ?? new MemoryTransactionStore();
+  }
+
+  /**
+   * プロバイダーを登録する
+   * @param name プロバイダー名
+   * @param config RP の設定（issuer は必須、transactionStore はレジストリのものを使用する）
+   * @returns 登録した RP
+   * @throws Error 同じ名前のプロバイダーが登録済みの場合、または issuer がない場合
+   */
+  public register(name: string, config: OpenIDConfiguration): OpenIDConnectRP {
+    this.assertAvailable(name);
+    if (!config.issuer) {
+      throw new Error(`issuer is required for provider "${name}"`);
+    }
+
+    const transactions = new ProviderTransactionStore(
+      this.transactionStore,
+      name,
+    );
+    const rp = new OpenIDConnectRP({
+      ...config,
+      transactionStore: transactions,
+    });
+    this.providers.set(name, { rp, transactions });
+    return rp;
+  }
+
+  /**
+   * Discovery で取得した設定でプロバイダーを登録する
+   * @param name プロバイダー名
+   * @param issuer OP の発行者識別子
+   * @param clientOptions クライアントの設定
+   * @returns 登録した RP
+   * @throws Error 同じ名前のプロバイダーが登録済みの場合
+   */
+  public async discover(
+    name: string,
+    issuer: string,
+    clientOptions: OpenIDClientOptions,
+  ): Promise<OpenIDConnectRP> {
+    this.assertAvailable(name);
+
+    const transactions = new ProviderTransactionStore(
+      this.transactionStore,
+      name,
+    );
+    const rp = await OpenIDConnectRP.discover(issuer, {
+      ...clientOptions,
+      transactionStore: transactions,
+    });
+    this.assertAvailable(name);
+    this.providers.set(name, { rp, transactions });
+    return rp;
+  }
+
+  /**
+   * 登録済みのプロバイダーの RP を取得する
+   * @param name プロバイダー名
+   * @returns RP
+   * @throws Error プロバイダーが登録されていない場合
+   */
+  public get(name: string): OpenIDConnectRP {
+    return this.getProvider(name).rp;
+  }
+
+  /**
+   * 登録済みのプロバイダー名を取得する
+   * @returns プロバイダー名（登録順）
+   */
+  public names(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  /**
+   * 指定したプロバイダーの認証リクエストURLを生成する
+   * @param name プロバイダー名
+   * @param options 認証リクエストごとの設定
+   * @returns 認証リクエストURL
+   * @throws Error プロバイダーが登録されていない場合
+   */
+  public async generateAuthorizationUrl(
+    name: string,
+    options: AuthorizationRequestOptions = {},
+  ): Promise<string> {
+    return this.getProvider(name).rp.generateAuthorizationUrl(options);
+  }
+
+  /**
+   * 認証レスポンスを、state に対応するトランザクションを発行したプロバイダーの RP で処理する
+   * @param input リダイレクトURL、URLフラグメント、または form_post のリクエストボディ
+   * @returns 処理結果とプロバイダー名（state に対応するトランザクションがない場合は error に StateMismatchError を設定する）
+   */
+  public async handleCallback(
+    input: CallbackInput,
+  ): Promise<ProviderCallbackResult> {
+    const route = await this.route(readState(input));
+    if (!route || route.transaction.type === "logout") {
+      return { error: new StateMismatchError() };
+    }
+
+    const { name, provider, transaction } = route;
+    provider.transactions.claim(transaction);
+    try {
+      return { ...(await provider.rp.handleCallback(input)), provider: name };
+    } finally {
+      provider.transactions.release(transaction.state);
+    }
+  }
+
+  /**
+   * 指定したプロバイダーのログアウトリクエストURLを生成する
+   * @param name プロバイダー名
+   * @param options ログアウトリクエストごとの設定
+   * @returns ログアウトリクエストURL
+   * @throws Error プロバイダーが登録されていない場合
+   */
+  public async generateLogoutUrl(
+    name: string,
+    options: LogoutRequestOptions = {},
+  ): Promise<string> {
+    return this.getProvider(name).rp.generateLogoutUrl(options);
+  }
+
+  /**
+   * ログアウト後のリダイレクトを、state に対応するトランザクションを発行したプロバイダーの RP で処理する
+   * @param input リダイレクトURL、またはクエリパラメータ
+   * @returns 処理結果とプロバイダー名（state が一致しない場合は error に StateMismatchError を設定する）
+   */
+  public async handleLogoutCallback(
+    input: string | URLSearchParams,
+  ): Promise<ProviderLogoutCallbackResult> {
+    const params =
+      typeof input === "string" ? new URL(input).searchParams : input;
+    const route = await this.route(params.get("state") ?? undefined);
+    if (!route || route.transaction.type !== "logout") {
+      return { error: new StateMismatchError() };
+    }
+
+    const { name, provider, transaction } = route;
+    provider.transactions.claim(transaction);
+    try {
+      return {
+        ...(await provider.rp.handleLogoutCallback(params)),
+        provider: name,
+      };
+    } finally {
+      provider.transactions.release(transaction.state);
+    }
+  }
+
+  /**
+   * state に対応するトランザクションを取り出し、発行したプロバイダーを特定する
+   * @param state state
+   * @returns プロバイダー名・プロバイダー・トランザクション（特定できない場合は undefined）
+   */
+  private async route(
+    state: string | undefined,
+  ): Promise<
+    { name: string; provider: Provider; transaction: Transaction } | undefined
+  > {
+    const transaction = state
+      ? await this.transactionStore.consume(state)
+      : undefined;
+    const provider = transaction?.provider
+      ? this.providers.get(transaction.provider)
+      : undefined;
+    if (!transaction?.provider || !provider) {
+      return undefined;
+    }
+    return { name: transaction.provider, provider, transaction };
+  }
+
+  /**
+   * 登録済みのプロバイダーを取得する
+   * @param name プロバイダー名
+   * @returns プロバイダー
+   * @throws Error プロバイダーが登録されていない場合
+   */
+  private getProvider(name: string): Provider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new Error(`Unknown provider: ${name}`);
+    }
+    return provider;
+  }
+
+  /**
+   * プロバイダー名が使用されていないことを確認する
+   * @param name プロバイダー名
+   * @throws Error 同じ名前のプロバイダーが登録済みの場合
+   */
+  private assertAvailable(name: string): void {
+    if (this.providers.has(name)) {
+      throw new Error(`Provider "${name}" is already registered`);
+    }
+  }
+}
+
+/**
+ * 振り分けのために認証レスポンスから state を読み取る（検証は振り分け先の RP で行う）
+ * @param input リダイレクトURL、URLフラグメント、または form_post のリクエストボディ
+ * @returns state（ない場合は undefined）
+ */
+function readState(input: CallbackInput): string | undefined {
+  let params: URLSearchParams;
+  if (typeof input !== "string") {
+    params = new URLSearchParams(input);
+  } else if (input.startsWith("#")) {
+    params = new URLSearchParams(input.slice(1));
+  } else {
+    const url = new URL(input);
+    const fragment = new URLSearchParams(url.hash.slice(1));
+    params =
+      fragment.has("state") || fragment.has("response")
+        ? fragment
+        : url.searchParams;
+  }
+
+  // JWT 形式の認証レスポンス（JARM）は署名を検証せずに state を読み取る
+  const response = params.get("response");
+  if (!params.has("state") && response) {
+    try {
+      const { state } = decodeJwt(response);
+      return typeof state === "string" ? state : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  return params.get("state") ?? undefined;
+}
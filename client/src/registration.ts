@@ -0,0 +1,234 @@
+/**
+ * Dynamic Client Registration（RFC 7591）とクライアント登録の管理（RFC 7592）
+ */
+import type { JWK } from "jose";
+import { ProtocolError } from "./errors";
+import {
+  type HttpOptions,
+  readJson,
+  sendRequest,
+  toResponseError,
+} from "./http";
+
+// クライアントメタデータ（RFC 7591 2 / OpenID Connect Dynamic Client Registration 1.0 2）
+export interface ClientMetadata {
+  redirect_uris?: string[];
+  response_types?: string[];
+  grant_types?: string[];
+  application_type?: "web" | "native";
+  client_name?: string;
+  contacts?: string[];
+  scope?: string;
+  token_endpoint_auth_method?: string;
+  token_endpoint_auth_signing_alg?: string;
+  jwks_uri?: string;
+  jwks?: { keys: JWK[] }; // 公開鍵のみを含めること
+  id_token_signed_response_alg?: string;
+  post_logout_redirect_uris?: string[];
+  [key: string]: unknown; // その他のメタデータ
+}
+
+// クライアント登録のレスポンス（RFC 7591 3.2.1 / RFC 7592 3）
+export interface ClientRegistrationResponse extends ClientMetadata {
+  client_id: string;
+  client_secret?: string;
+  client_id_issued_at?: number;
+  client_secret_expires_at?: number; // 0 の場合は期限なし
+  registration_access_token?: string;
+  registration_client_uri?: string;
+}
+
+export interface ClientRegistrationOptions {
+  // 登録エンドポイントが要求する場合の初期アクセストークン
+  initialAccessToken?: string;
+  // HTTP リクエストの設定
+  http?: HttpOptions;
+}
+
+// 更新リクエストに含めてはならないパラメータ（RFC 7592 2.2）
+const READ_ONLY_PARAMETERS = [
+  "registration_access_token",
+  "registration_client_uri",
+  "client_id_issued_at",
+  "client_secret_expires_at",
+];
+
+/**
+ * クライアントを登録する
+ * @param registrationEndpoint 登録エンドポイント
+ * @param metadata クライアントメタデータ
+ * @param options 登録の設定
+ * @returns 登録されたクライアントの情報
+ * @throws OAuthError OP がエラーレスポンス（invalid_redirect_uri など）を返した場合
+ */
+export async function registerClient(
+  registrationEndpoint: string,
+  metadata: ClientMetadata,
+  options: ClientRegistrationOptions = {},
+): Promise<ClientRegistrationResponse> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+  if (options.initialAccessToken) {
+    headers.Authorization = `Bearer ${options.initialAccessToken}`;
+  }
+
+  const response = await sendRequest(
+    registrationEndpoint,
+    {
+      method: "POST",
+      headers,
+      body: JSON.stringify(metadata),
+    },
+    options.http,
+  );
+
+  return readRegistrationResponse(response, "Client registration");
+}
+
+/**
+ * 登録されたクライアントの情報を取得する
+ * @param registration クライアント登録のレスポンス（registration_client_uri と registration_access_token が必要）
+ * @param http HTTP リクエストの設定
+ * @returns 登録されたクライアントの情報
+ */
+export async function readClientRegistration(
+  registration: ClientRegistrationResponse,
+  http?: HttpOptions,
+): Promise<ClientRegistrationResponse> {
+  const { uri, accessToken } = getManagementCredentials(registration);
+
+  const response = await sendRequest(
+    uri,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: "application/json",
+      },
+    },
+    http,
+  );
+
+  return readRegistrationResponse(response, "Client read");
+}
+
+/**
+ * 登録されたクライアントの情報を更新する
+ * 更新後のメタデータをすべて送信する（省略したメタデータは削除される場合がある）
+ * @param registration クライアント登録のレスポンス（registration_client_uri と registration_access_token が必要）
+ * @param metadata 更新後のクライアントメタデータ
+ * @param http HTTP リクエストの設定
+ * @returns 更新されたクライアントの情報（registration_access_token が再発行される場合がある）
+ */
+export async function updateClientRegistration(
+  registration: ClientRegistrationResponse,
+  metadata: ClientMetadata,
+  http?: HttpOptions,
+): Promise<ClientRegistrationResponse> {
+  const { uri, accessToken } = getManagementCredentials(registration);
+
+  const body: Record<string, unknown> = {
+    ...metadata,
+    client_id: registration.client_id,
+  };
+  if (registration.client_secret) {
+    body.client_secret = registration.client_secret;
+  }
+  for (const name of READ_ONLY_PARAMETERS) {
+    delete body[name];
+  }
+
+  const response = await sendRequest(
+    uri,
+    {
+      method: "PUT",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify(body),
+    },
+    http,
+  );
+
+  return readRegistrationResponse(response, "Client update");
+}
+
+/**
+ * クライアントの登録を削除する
+ * @param registration クライアント登録のレスポンス（registration_client_uri と registration_access_token が必要）
+ * @param http HTTP リクエストの設定
+ */
+export async function deleteClientRegistration(
+  registration: ClientRegistrationResponse,
+  http?: HttpOptions,
+): Promise<void> {
+  const { uri, accessToken } = getManagementCredentials(registration);
+
+  const response = await sendRequest(
+    uri,
+    {
+      method: "DELETE",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+      },
+    },
+    http,
+  );
+
+  if (!response.ok) {
+    throw await toResponseError(response, "Client delete");
+  }
+}
+
+/**
+ * クライアント登録の管理に必要な情報を取得する
+ * @param registration クライアント登録のレスポンス
+ * @returns registration_client_uri と registration_access_token
+ */
+function getManagementCredentials(registration: ClientRegistrationResponse): {
+  uri: string;
+  accessToken: string;
+} {
+  if (
+    !registration.registration_client_uri ||
+    !registration.registration_access_token
+  ) {
+    throw new Error(
+      "registration_client_uri and registration_access_token are required to manage the client registration",
+    );
+  }
+  return {
+    uri: registration.registration_client_uri,
+    accessToken: registration.registration_access_token,
+  };
+}
+
+/**
+ * クライアント登録のレスポンスを読み取る
+ * @param response レスポンス
+ * @param description リクエストの説明（エラーメッセージ用）
+ * @returns クライアント登録のレスポンス
+ */
+async function readRegistrationResponse(
+  response: Response,
+  description: string,
+): Promise<ClientRegistrationResponse> {
+  if (!response.ok) {
+    throw await toResponseError(response, `${description} request`);
+  }
+
+  const registration = await readJson<ClientRegistrationResponse>(
+    response,
+    description,
+  );
+  if (typeof registration.client_id !== "string") {
+    throw new ProtocolError(
+      `${description} response does not contain client_id`,
+      response.status,
+    );
+  }
+  return registration;
+}
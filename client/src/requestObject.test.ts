@@ -0,0 +1,98 @@
+import {
+  type JWK,
+  compactDecrypt,
+  decodeProtectedHeader,
+  exportJWK,
+  generateKeyPair,
+  jwtVerify,
+} from "jose";
+import { beforeAll, describe, expect, it } from "vitest";
+import { createRequestObject } from "./requestObject";
+
+describe("createRequestObject", () => {
+  const audience = "https://auth.example.com";
+  const params = new URLSearchParams({
+    client_id: "test-client-id",
+    response_type: "code",
+    scope: "openid",
+    max_age: "300",
+    claims: JSON.stringify({ id_token: { acr: { essential: true } } }),
+  });
+
+  // テスト用の鍵
+  let signingKeyPair: CryptoKeyPair;
+  let signingKey: JWK;
+
+  beforeAll(async () => {
+    signingKeyPair = await generateKeyPair("ES256", { extractable: true });
+    signingKey = {
+      ...(await exportJWK(signingKeyPair.privateKey)),
+      kid: "rp-key",
+      alg: "ES256",
+    };
+  });
+
+  it("認証リクエストのパラメータをクレームとして署名する", async () => {
+    const requestObject = await createRequestObject(params, {
+      clientId: "test-client-id",
+      audience,
+      signingKey,
+    });
+
+    expect(decodeProtectedHeader(requestObject)).toEqual({
+      alg: "ES256",
+      typ: "oauth-authz-req+jwt",
+      kid: "rp-key",
+    });
+    const { payload } = await jwtVerify(
+      requestObject,
+      signingKeyPair.publicKey,
+      {
+        issuer: "test-client-id",
+        audience,
+      },
+    );
+    expect(payload).toMatchObject({
+      client_id: "test-client-id",
+      response_type: "code",
+      scope: "openid",
+      max_age: 300,
+      claims: { id_token: { acr: { essential: true } } },
+    });
+    expect(payload.exp).toBe((payload.iat ?? 0) + 300);
+    expect(payload.jti).toEqual(expect.any(String));
+  });
+
+  it("暗号化用の鍵を指定した場合は署名後に暗号化する", async () => {
+    const encryptionKeyPair = await generateKeyPair("RSA-OAEP-256", {
+      extractable: true,
+    });
+    const encryptionKey = {
+      ...(await exportJWK(encryptionKeyPair.publicKey)),
+      kid: "op-enc-key",
+    };
+
+    const requestObject = await createRequestObject(params, {
+      clientId: "test-client-id",
+      audience,
+      signingKey,
+      encryptionKey,
+    });
+
+    expect(decodeProtectedHeader(requestObject)).toEqual({
+      alg: "RSA-OAEP-256",
+      enc: "A256GCM",
+      cty: "JWT",
+      kid: "op-enc-key",
+    });
+    const { plaintext } = await compactDecrypt(
+      requestObject,
+      encryptionKeyPair.privateKey,
+    );
+    const { payload } = await jwtVerify(
+      new TextDecoder().decode(plaintext),
+      signingKeyPair.publicKey,
+    );
+    expect(payload.response_type).toBe("code");
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * リクエストオブジェクト（JWT-Secured Authorization Request, RFC 9101）と claims パラメータ（OpenID Connect Core 1.0 5.5）
+ */
+import { CompactEncrypt, type JWK, SignJWT, base64url, importJWK } from "jose";
+
+// 個々のクレームの要求（null の場合はデフォルトの方法で要求する）
+export type ClaimRequest = {
+  essential?: boolean;
+  value?: unknown;
+  values?: unknown[];
+  [key: string]: unknown; // 拡張パラメータ
+} | null;
+
+// claims パラメータ
+export interface ClaimsRequest {
+  userinfo?: Record<string, ClaimRequest>;
+  id_token?: Record<string, ClaimRequest>;
+}
+
+// リクエストオブジェクトの生成に必要な情報
+export interface RequestObjectOptions {
+  clientId: string;
+  audience: string; // OP の発行者識別子
+  signingKey: JWK; // 署名に使用する秘密鍵
+  signingAlg?: string; // デフォルト: JWK の alg または RS256
+  encryptionKey?: JWK; // OP の暗号化用公開鍵（指定した場合は暗号化する）
+  encryptionAlg?: string; // デフォルト: JWK の alg または RSA-OAEP-256
+  encryptionEnc?: string; // デフォルト: A256GCM
+}
+
+// リクエストオブジェクトの有効期間（秒）
+const REQUEST_OBJECT_LIFETIME = 300;
+
+/**
+ * 認証リクエストのパラメータからリクエストオブジェクトを生成する
+ * @param params 認証リクエストのパラメータ
+ * @param options リクエストオブジェクトの生成に必要な情報
+ * @returns 署名済み（暗号化を指定した場合は署名後に暗号化した）JWT
+ */
+export async function createRequestObject(
+  params: URLSearchParams,
+  options: RequestObjectOptions,
+): Promise<string> {
+  // パラメータをクレームに変換する（max_age は数値、claims は JSON オブジェクト）
+  const payload: Record<string, unknown> = {};
+  for (const [name, value] of params) {
+    if (name === "max_age") {
+      payload[name] = Number(value);
+    } else if (name === "claims") {
+      payload[name] = JSON.parse(value);
+    } else {
+      payload[name] = value;
+    }
+  }
+
+  const alg = options.signingAlg ?? options.signingKey.alg ?? "RS256";
+  const now = Math.floor(Date.now() / 1000);
+  const jti = new Uint8Array(16);
+  globalThis.crypto.getRandomValues(jti);
+
+  const jws = await new SignJWT(payload)
+    .setProtectedHeader({
+      alg,
+      typ: "oauth-authz-req+jwt",
+      kid: options.signingKey.kid,
+    })
+    .setIssuer(options.clientId)
+    .setAudience(options.audience)
+    .setJti(base64url.encode(jti))
+    .setIssuedAt(now)
+    .setNotBefore(now)
+    .setExpirationTime(now + REQUEST_OBJECT_LIFETIME)
+    .sign(await importJWK(options.signingKey, alg));
+
+  if (!options.encryptionKey) {
+    return jws;
+  }
+
+  // 署名した JWT を OP の公開鍵で暗号化する（Nested JWT）
+  const encryptionAlg =
+    options.encryptionAlg ?? options.encryptionKey.alg ?? "RSA-OAEP-256";
+  return new CompactEncrypt(new TextEncoder().encode(jws))
+    .setProtectedHeader({
+      alg: encryptionAlg,
+      enc: options.encryptionEnc ?? "A256GCM",
+      cty: "JWT",
+      kid: options.encryptionKey.kid,
+    })
+    .encrypt(await importJWK(options.encryptionKey, encryptionAlg));
+}
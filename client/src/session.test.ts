@@ -0,0 +1,153 @@
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Socket } from "node:net";
+import { describe, expect, it } from "vitest";
+import { CookieSessionStore, type SessionData } from "./session";
+
+const secret = "test-session-secret-0123456789abcdef";
+
+// テスト用のリクエスト・レスポンス
+const createRequest = (cookie?: string) => {
+  const req = new IncomingMessage(new Socket());
+  req.headers = cookie ? { cookie } : {};
+  return req;
+};
+const setCookies = (res: ServerResponse) =>
+  (res.getHeader("Set-Cookie") as string[] | undefined) ?? [];
+
+// Set-Cookie から次のリクエストの Cookie ヘッダーを組み立てる
+const toCookieHeader = (res: ServerResponse) =>
+  setCookies(res)
+    .filter((cookie) => !cookie.includes("Max-Age=0"))
+    .map((cookie) => cookie.split(";")[0])
+    .join("; ");
+
+const save = async (store: CookieSessionStore, session: SessionData) => {
+  const req = createRequest();
+  const res = new ServerResponse(req);
+  await store.set(req, res, session);
+  return res;
+};
+
+describe("CookieSessionStore", () => {
+  const session: SessionData = {
+    user: { sub: "user123", name: "Test User" },
+    tokens: { access_token: "test-access-token", token_type: "Bearer" },
+    receivedAt: 1700000000000,
+  };
+
+  it("暗号化した Cookie からセッションを復元する", async () => {
+    const store = new CookieSessionStore({ secret });
+    const res = await save(store, session);
+
+    const [cookie] = setCookies(res);
+    expect(cookie).toMatch(/^oidc_session=/);
+    expect(cookie).toContain("HttpOnly");
+    expect(cookie).toContain("Secure");
+    expect(cookie).toContain("SameSite=Lax");
+    expect(cookie).toContain("Max-Age=86400");
+    // 値は暗号化されている
+    expect(cookie).not.toContain("test-access-token");
+
+    const restored = await store.get(createRequest(toCookieHeader(res)));
+    expect(restored).toEqual(session);
+  });
+
+  it("Cookie がない場合は undefined を返す", async () => {
+    const store = new CookieSessionStore({ secret });
+    expect(await store.get(createRequest())).toBeUndefined();
+  });
+
+  it("改ざんされた Cookie は無視する", async () => {
+    const store = new CookieSessionStore({ secret });
+    const res = await save(store, session);
+    const cookie = toCookieHeader(res);
+    const tampered = `${cookie.slice(0, -2)}${cookie.endsWith("A") ? "BB" : "AA"}`;
+
+    expect(await store.get(createRequest(tampered))).toBeUndefined();
+  });
+
+  it("別の秘密で暗号化された Cookie は無視する", async () => {
+    const res = await save(new CookieSessionStore({ secret }), session);
+    const store = new CookieSessionStore({ secret: "x".repeat(32) });
+
+    expect(await store.get(createRequest(toCookieHeader(res)))).toBeUndefined();
+  });
+
+  it("秘密を複数指定した場合は以前の秘密で暗号化された Cookie も復号する", async () => {
+    const res = await save(new CookieSessionStore({ secret }), session);
+    const store = new CookieSessionStore({ secret: ["x".repeat(32), secret] });
+
+    expect(await store.get(createRequest(toCookieHeader(res)))).toEqual(
+      session,
+    );
+  });
+
+  it("大きなセッションは複数の Cookie に分割し、不要になった Cookie を削除する", async () => {
+    const store = new CookieSessionStore({ secret });
+    const large: SessionData = {
+      ...session,
+      user: { sub: "user123", picture: "a".repeat(6000) },
+    };
+    const res = await save(store, large);
+
+    const names = setCookies(res).map((cookie) => cookie.split("=")[0]);
+    expect(names.length).toBeGreaterThan(1);
+    expect(names).toEqual(names.map((_, i) => `oidc_session.${i}`));
+    for (const cookie of setCookies(res)) {
+      expect(cookie.length).toBeLessThan(4096);
+    }
+    const cookieHeader = toCookieHeader(res);
+    expect(await store.get(createRequest(cookieHeader))).toEqual(large);
+
+    // 小さなセッションに戻した場合は分割した Cookie を削除する
+    const req = createRequest(cookieHeader);
+    const next = new ServerResponse(req);
+    await store.set(req, next, session);
+    expect(setCookies(next)).toEqual([
+      expect.stringMatching(/^oidc_session=.+Max-Age=86400/),
+      ...names.map((name) => expect.stringMatching(`^${name}=; Max-Age=0`)),
+    ]);
+  });
+
+  it("destroy はセッションの Cookie を削除する", async () => {
+    const store = new CookieSessionStore({ secret });
+    const req = createRequest(
+      "other=1; oidc_session.0=chunk0; oidc_session.1=chunk1",
+    );
+    const res = new ServerResponse(req);
+    res.setHeader("Set-Cookie", ["other=2"]);
+    await store.destroy(req, res);
+
+    expect(setCookies(res)).toEqual([
+      "other=2",
+      "oidc_session.0=; Max-Age=0; Path=/; HttpOnly; Secure; SameSite=Lax",
+      "oidc_session.1=; Max-Age=0; Path=/; HttpOnly; Secure; SameSite=Lax",
+    ]);
+  });
+
+  it("Cookie の属性を設定できる", async () => {
+    const store = new CookieSessionStore({
+      secret,
+      name: "app_session",
+      maxAge: 600,
+      path: "/app",
+      domain: "example.com",
+      secure: false,
+      sameSite: "None",
+    });
+    const [cookie] = setCookies(await save(store, session));
+
+    expect(cookie).toMatch(
+      /^app_session=[^;]+; Max-Age=600; Path=\/app; HttpOnly; Domain=example\.com; SameSite=None$/,
+    );
+  });
+
+  it("秘密が短い場合はエラーをスローする", () => {
+    expect(() => new CookieSessionStore({ secret: "short" })).toThrow(
+      "secret must be at least 32 characters",
+    );
+    expect(() => new CookieSessionStore({ secret: [] })).toThrow(
+      "secret must be at least 32 characters",
+    );
+  });
+});
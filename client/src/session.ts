@@ -0,0 +1,279 @@
+/**
+ * ミドルウェアのセッションの保存（暗号化して分割した Cookie）
+ */
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { EncryptJWT, jwtDecrypt } from "jose";
+import type { TokenResponse } from "./index";
+import type { Transaction } from "./transactionStore";
+
+// セッションに保存するデータ
+export interface SessionData {
+  user?: Record<string, unknown>; // IDトークンのクレーム（ユーザー情報を取得した場合はマージしたもの）
+  tokens?: TokenResponse; // ログイン時に取得したトークン
+  receivedAt?: number; // tokens を受け取った時刻（ミリ秒）
+  transactions?: Transaction[]; // 処理中の認証リクエスト・ログアウトリクエスト
+}
+
+/**
+ * セッションの保存先
+ * Cookie 以外に保存する場合は、セッションIDの Cookie の読み書きもストアで行う
+ */
+export interface SessionStore {
+  get(req: IncomingMessage): Promise<SessionData | undefined>;
+  set(
+    req: IncomingMessage,
+    res: ServerResponse,
+    session: SessionData,
+  ): Promise<void>;
+  destroy(req: IncomingMessage, res: ServerResponse): Promise<void>;
+}
+
+export interface CookieSessionStoreOptions {
+  // 暗号化の秘密（32文字以上、配列の場合は先頭で暗号化し、すべてで復号を試みる）
+  secret: string | string[];
+  name?: string; // Cookie 名（デフォルト: oidc_session）
+  maxAge?: number; // セッションの有効期間（秒、デフォルト: 86400）
+  path?: string; // デフォルト: /
+  domain?: string;
+  secure?: boolean; // デフォルト: true
+  sameSite?: "Strict" | "Lax" | "None"; // デフォルト: Lax（form_post を使用する場合は None）
+}
+
+const DEFAULT_COOKIE_NAME = "oidc_session";
+const DEFAULT_MAX_AGE = 24 * 60 * 60;
+const MIN_SECRET_LENGTH = 32;
+// 1つの Cookie に格納する値の長さ（名前と属性を含めて 4096 バイトに収まるようにする）
+const CHUNK_SIZE = 3800;
+const KEY_INFO = "OpenID Connect RP session cookie";
+
+/**
+ * セッションを暗号化（A256GCM）して Cookie に保存するストア
+ * 認証付き暗号のため改ざんされた Cookie は復号に失敗し、セッションがないものとして扱う
+ * Cookie の上限を超える場合は name.0, name.1, ... に分割して保存する
+ */
+export class CookieSessionStore implements SessionStore {
+  private readonly secrets: string[];
+  private keys?: Promise<Uint8Array[]>;
+  private readonly name: string;
+  private readonly maxAge: number;
+  private readonly attributes: string[];
+
+  /**
+   * コンストラクタ
+   * @param options ストアの設定
+   */
+  constructor(options: CookieSessionStoreOptions) {
+    this.secrets = Array.isArray(options.secret)
+      ? options.secret
+      : [options.secret];
+    if (
+      this.secrets.length === 0 ||
+      this.secrets.some((secret) => secret.length < MIN_SECRET_LENGTH)
+    ) {
+      throw new Error(
+        `secret must be at least ${MIN_SECRET_LENGTH} characters`,
+      );
+    }
+
+    this.name = options.name ?? DEFAULT_COOKIE_NAME;
+    this.maxAge = options.maxAge ?? DEFAULT_MAX_AGE;
+    this.attributes = [`Path=${options.path ?? "/"}`, "HttpOnly"];
+    if (options.domain) {
+      this.attributes.push(`Domain=${options.domain}`);
+    }
+    if (options.secure ?? true) {
+      this.attributes.push("Secure");
+    }
+    this.attributes.push(`SameSite=${options.sameSite ?? "Lax"}`);
+  }
+
+  public async get(req: IncomingMessage): Promise<SessionData | undefined> {
+    const value = this.readValue(parseCookies(req.headers.cookie));
+    if (!value) {
+      return undefined;
+    }
+
+    for (const key of await this.getKeys()) {
+      try {
+        const { payload } = await jwtDecrypt(value, key, {
+          keyManagementAlgorithms: ["dir"],
+          contentEncryptionAlgorithms: ["A256GCM"],
+        });
+        return payload.session as SessionData;
+      } catch {
+        // 別の秘密で暗号化されているか、改ざん・期限切れ
+      }
+    }
+    return undefined;
+  }
+
+  public async set(
+    req: IncomingMessage,
+    res: ServerResponse,
+    session: SessionData,
+  ): Promise<void> {
+    const [key] = await this.getKeys();
+    const now = Math.floor(Date.now() / 1000);
+    const value = await new EncryptJWT({ session })
+      .setProtectedHeader({ alg: "dir", enc: "A256GCM" })
+      .setIssuedAt(now)
+      .setExpirationTime(now + this.maxAge)
+      .encrypt(key);
+
+    const chunks: string[] = [];
+    for (let i = 0; i < value.length; i += CHUNK_SIZE) {
+      chunks.push(value.slice(i, i + CHUNK_SIZE));
+    }
+    const cookies = new Map(
+      chunks.length === 1
+        ? [[this.name, value]]
+        : chunks.map((chunk, i) => [`${this.name}.${i}`, chunk]),
+    );
+
+    // 以前の Cookie のうち、今回書き込まないもの（分割数が減った場合など）は削除する
+    const stale = this.cookieNames(req).filter((name) => !cookies.has(name));
+    appendSetCookie(res, [
+      ...[...cookies].map(([name, chunk]) =>
+        this.serialize(name, chunk, this.maxAge),
+      ),
+      ...stale.map((name) => this.serialize(name, "", 0)),
+    ]);
+  }
+
+  public async destroy(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    appendSetCookie(
+      res,
+      this.cookieNames(req).map((name) => this.serialize(name, "", 0)),
+    );
+  }
+
+  /**
+   * 秘密から暗号化に使用する鍵を導出する（HKDF-SHA-256）
+   * @returns 鍵（secret と同じ順序）
+   */
+  private getKeys(): Promise<Uint8Array[]> {
+    this.keys ??= Promise.all(this.secrets.map(deriveKey));
+    return this.keys;
+  }
+
+  /**
+   * 分割された Cookie を結合してセッションの値を取得する
+   * @param cookies リクエストの Cookie
+   * @returns セッションの値（ない場合は undefined）
+   */
+  private readValue(cookies: Map<string, string>): string | undefined {
+    const value = cookies.get(this.name);
+    if (value) {
+      return value;
+    }
+
+    let joined = "";
+    for (let i = 0; cookies.has(`${this.name}.${i}`); i++) {
+      joined += cookies.get(`${this.name}.${i}`);
+    }
+    return joined || undefined;
+  }
+
+  /**
+   * リクエストに含まれるセッションの Cookie 名を取得する
+   * @param req リクエスト
+   * @returns Cookie 名（分割された Cookie を含む）
+   */
+  private cookieNames(req: IncomingMessage): string[] {
+    const chunkName = new RegExp(`^${escapeRegExp(this.name)}\\.\\d+$`);
+    return [...parseCookies(req.headers.cookie).keys()].filter(
+      (name) => name === this.name || chunkName.test(name),
+    );
+  }
+
+  /**
+   * Set-Cookie ヘッダーの値を生成する
+   * @param name Cookie 名
+   * @param value 値
+   * @param maxAge 有効期間（秒、0 の場合は削除）
+   * @returns Set-Cookie ヘッダーの値
+   */
+  private serialize(name: string, value: string, maxAge: number): string {
+    return [`${name}=${value}`, `Max-Age=${maxAge}`, ...this.attributes].join(
+      "; ",
+    );
+  }
+}
+
+/**
+ * 秘密から A256GCM の鍵を導出する
+ * @param secret 秘密
+ * @returns 256ビットの鍵
+ */
+async function deriveKey(secret: string): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const material = await globalThis.crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    "HKDF",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await globalThis.crypto.subtle.deriveBits(
+    {
+      name: "HKDF",
+      hash: "SHA-256",
+      salt: new Uint8Array(),
+      info: encoder.encode(KEY_INFO),
+    },
+    material,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Cookie ヘッダーを解析する
+ * @param header Cookie ヘッダー
+ * @returns Cookie 名と値（同じ名前がある場合は先頭の値）
+ */
+function parseCookies(header: string | undefined): Map<string, string> {
+  const cookies = new Map<string, string>();
+  for (const pair of header?.split(";") ?? []) {
+    const index = pair.indexOf("=");
+    if (index === -1) {
+      continue;
+    }
+    const name = pair.slice(0, index).trim();
+    if (name && !cookies.has(name)) {
+      cookies.set(name, pair.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+/**
+ * レスポンスに Set-Cookie ヘッダーを追加する（設定済みの Set-Cookie は残す）
+ * @param res レスポンス
+ * @param cookies Set-Cookie ヘッダーの値
+ */
+function appendSetCookie(res: ServerResponse, cookies: string[]): void {
+  if (cookies.length === 0) {
+    return;
+  }
+  const current = res.getHeader("Set-Cookie");
+  const existing =
+    current === undefined
+      ? []
+      : Array.isArray(current)
+        ? current
+        : [String(current)];
+  res.setHeader("Set-Cookie", [...existing, ...cookies]);
+}
+
+/**
+ * 正規表現の特殊文字をエスケープする
+ * @param value 文字列
+ * @returns エスケープした文字列
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,193 @@
+import { SignJWT } from "jose";
+import { describe, expect, it, vi } from "vitest";
+import { OAuthError } from "./errors";
+import type { TokenResponse } from "./index";
+import { TokenSet, TokenSetManager } from "./tokenSet";
+
+describe("TokenSet", () => {
+  const receivedAt = Date.UTC(2025, 0, 1);
+  const response: TokenResponse = {
+    access_token: "access-token",
+    token_type: "Bearer",
+    refresh_token: "refresh-token",
+    expires_in: 3600,
+    scope: "openid",
+  };
+
+  it("expires_inから有効期限を計算する", () => {
+    const tokenSet = new TokenSet(response, receivedAt);
+
+    expect(tokenSet.expiresAt).toBe(receivedAt / 1000 + 3600);
+    expect(tokenSet.expiresIn(receivedAt + 600 * 1000)).toBe(3000);
+    expect(tokenSet.expired(0, receivedAt + 3599 * 1000)).toBe(false);
+    expect(tokenSet.expired(0, receivedAt + 3600 * 1000)).toBe(true);
+    expect(tokenSet.expired(60, receivedAt + 3540 * 1000)).toBe(true);
+  });
+
+  it("expires_inがない場合は期限切れとみなさない", () => {
+    const tokenSet = new TokenSet({ ...response, expires_in: undefined });
+
+    expect(tokenSet.expiresAt).toBeUndefined();
+    expect(tokenSet.expired()).toBe(false);
+  });
+
+  it("IDトークンのクレームを取得する", async () => {
+    const idToken = await new SignJWT({ sub: "user123" })
+      .setProtectedHeader({ alg: "HS256" })
+      .sign(new Uint8Array(32));
+    const tokenSet = new TokenSet({ ...response, id_token: idToken });
+
+    expect(tokenSet.claims()).toEqual({ sub: "user123" });
+    expect(() => new TokenSet(response).claims()).toThrow(
+      "TokenSet does not contain an ID Token",
+    );
+  });
+
+  it("再発行されなかったリフレッシュトークンを引き継ぐ", () => {
+    const tokenSet = new TokenSet(response, receivedAt).refreshed({
+      access_token: "new-access-token",
+      token_type: "Bearer",
+      expires_in: 3600,
+    });
+
+    expect(tokenSet.accessToken).toBe("new-access-token");
+    expect(tokenSet.refreshToken).toBe("refresh-token");
+    expect(tokenSet.scope).toBe("openid");
+  });
+});
+
+describe("TokenSetManager", () => {
+  // 期限切れのトークン
+  const expiredResponse: TokenResponse = {
+    access_token: "old-access-token",
+    token_type: "Bearer",
+    refresh_token: "old-refresh-token",
+    expires_in: 0,
+  };
+
+  it("更新前のIDトークンを渡して再発行されたIDトークンを照合させる", async () => {
+    const client = {
+      refreshToken: vi.fn().mockResolvedValueOnce({
+        access_token: "access-token-1",
+        token_type: "Bearer",
+        expires_in: 3600,
+      }),
+    };
+    const manager = new TokenSetManager(
+      client,
+      new TokenSet({ ...expiredResponse, id_token: "old-id-token" }),
+    );
+
+    await manager.getAccessToken();
+
+    expect(client.refreshToken).toHaveBeenCalledWith("old-refresh-token", {
+      idToken: "old-id-token",
+    });
+  });
+
+  it("有効期限内の場合は更新しない", async () => {
+    const client = { refreshToken: vi.fn() };
+    const manager = new TokenSetManager(
+      client,
+      new TokenSet({ ...expiredResponse, expires_in: 3600 }),
+    );
+
+    expect(await manager.getAccessToken()).toBe("old-access-token");
+    expect(client.refreshToken).not.toHaveBeenCalled();
+  });
+
+  it("期限が近い場合は更新し、ローテーションされたリフレッシュトークンを使用する", async () => {
+    const client = {
+      refreshToken: vi
+        .fn()
+        .mockResolvedValueOnce({
+          access_token: "access-token-1",
+          token_type: "Bearer",
+          refresh_token: "refresh-token-1",
+          expires_in: 30,
+        })
+        .mockResolvedValueOnce({
+          access_token: "access-token-2",
+          token_type: "Bearer",
+          expires_in: 3600,
+        }),
+    };
+    const onRefresh = vi.fn();
+    const manager = new TokenSetManager(client, new TokenSet(expiredResponse), {
+      onRefresh,
+    });
+
+    expect(await manager.getAccessToken()).toBe("access-token-1");
+    // 30秒後に期限切れとなるため、デフォルトの60秒前の時点で再度更新する
+    expect(await manager.getAccessToken()).toBe("access-token-2");
+
+    expect(client.refreshToken).toHaveBeenNthCalledWith(
+      1,
+      "old-refresh-token",
+      {
+        idToken: undefined,
+      },
+    );
+    expect(client.refreshToken).toHaveBeenNthCalledWith(2, "refresh-token-1", {
+      idToken: undefined,
+    });
+    expect(manager.tokenSet.refreshToken).toBe("refresh-token-1");
+    expect(onRefresh).toHaveBeenCalledTimes(2);
+    expect(onRefresh).toHaveBeenLastCalledWith(manager.tokenSet);
+  });
+
+  it("並行した更新要求は1回のリクエストにまとめる", async () => {
+    const client = {
+      refreshToken: vi.fn().mockResolvedValue({
+        access_token: "new-access-token",
+        token_type: "Bearer",
+        expires_in: 3600,
+      }),
+    };
+    const manager = new TokenSetManager(client, new TokenSet(expiredResponse));
+
+    const tokens = await Promise.all([
+      manager.getAccessToken(),
+      manager.getAccessToken(),
+      manager.getAccessToken(),
+    ]);
+
+    expect(tokens).toEqual([
+      "new-access-token",
+      "new-access-token",
+      "new-access-token",
+    ]);
+    expect(client.refreshToken).toHaveBeenCalledTimes(1);
+  });
+
+  it("更新に失敗した場合はエラーをスローし、次の呼び出しで再試行する", async () => {
+    const client = {
+      refreshToken: vi
+        .fn()
+        .mockRejectedValueOnce(
+          new OAuthError({ error: "temporarily_unavailable" }),
+        )
+        .mockResolvedValueOnce({
+          access_token: "new-access-token",
+          token_type: "Bearer",
+        }),
+    };
+    const manager = new TokenSetManager(client, new TokenSet(expiredResponse));
+
+    await expect(manager.getAccessToken()).rejects.toBeInstanceOf(OAuthError);
+    expect(await manager.getAccessToken()).toBe("new-access-token");
+  });
+
+  it("リフレッシュトークンがない場合はエラーをスローする", async () => {
+    const client = { refreshToken: vi.fn() };
+    const manager = new TokenSetManager(
+      client,
+      new TokenSet({ ...expiredResponse, refresh_token: undefined }),
+    );
+
+    await expect(manager.getAccessToken()).rejects.toThrow(
+      "Access token has expired and no refresh token is available",
+    );
+    expect(client.refreshToken).not.toHaveBeenCalled();
+  });
+});
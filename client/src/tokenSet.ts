@@ -0,0 +1,209 @@
+/**
+ * 有効期限を管理するトークンの集合と、アクセストークンの自動更新
+ */
+import { decodeJwt } from "jose";
+import { OpenIDConnectError } from "./errors";
+import type {
+  IDTokenPayload,
+  RefreshTokenOptions,
+  TokenResponse,
+} from "./index";
+
+/**
+ * トークンレスポンスから生成するトークンの集合
+ * expires_in を受け取った時点の絶対時刻（expiresAt）に変換して保持する
+ */
+export class TokenSet {
+  public readonly accessToken: string;
+  public readonly tokenType: string;
+  public readonly refreshToken?: string;
+  public readonly idToken?: string;
+  public readonly scope?: string;
+  public readonly expiresAt?: number; // 有効期限（秒、expires_in がない場合は undefined）
+
+  /**
+   * コンストラクタ
+   * @param response トークンレスポンス
+   * @param receivedAt レスポンスを受け取った時刻（ミリ秒、デフォルト: 現在時刻）
+   */
+  constructor(response: TokenResponse, receivedAt = Date.now()) {
+    this.accessToken = response.access_token;
+    this.tokenType = response.token_type;
+    this.refreshToken = response.refresh_token;
+    this.idToken = response.id_token;
+    this.scope = response.scope;
+    if (typeof response.expires_in === "number") {
+      this.expiresAt = Math.floor(receivedAt / 1000) + response.expires_in;
+    }
+  }
+
+  /**
+   * アクセストークンの残りの有効期間を取得する
+   * @param now 現在時刻（ミリ秒、テスト用）
+   * @returns 残りの有効期間（秒、有効期限がない場合は undefined）
+   */
+  public expiresIn(now = Date.now()): number | undefined {
+    if (this.expiresAt === undefined) {
+      return undefined;
+    }
+    return Math.max(0, this.expiresAt - Math.floor(now / 1000));
+  }
+
+  /**
+   * アクセストークンの有効期限が切れているか判定する
+   * 有効期限がない場合は期限切れとはみなさない
+   * @param leeway 期限の何秒前から期限切れとみなすか（デフォルト: 0）
+   * @param now 現在時刻（ミリ秒、テスト用）
+   * @returns 期限切れの場合は true
+   */
+  public expired(leeway = 0, now = Date.now()): boolean {
+    const expiresIn = this.expiresIn(now);
+    return expiresIn !== undefined && expiresIn <= leeway;
+  }
+
+  /**
+   * IDトークンのクレームを取得する
+   * 署名は検証しないため、handleCallback や validateIdToken で検証済みのIDトークンに対して使用する
+   * @returns IDトークンのペイロード
+   */
+  public claims(): IDTokenPayload {
+    if (!this.idToken) {
+      throw new OpenIDConnectError("TokenSet does not contain an ID Token");
+    }
+    return decodeJwt(this.idToken) as IDTokenPayload;
+  }
+
+  /**
+   * リフレッシュ後のトークンレスポンスから新しいトークンの集合を生成する
+   * リフレッシュトークンやIDトークンが再発行されなかった場合は現在の値を引き継ぐ
+   * @param response リフレッシュ時のトークンレスポンス
+   * @param receivedAt レスポンスを受け取った時刻（ミリ秒、デフォルト: 現在時刻）
+   * @returns 新しいトークンの集合
+   */
+  public refreshed(response: TokenResponse, receivedAt = Date.now()): TokenSet {
+    return new TokenSet(
+      {
+        ...response,
+        refresh_token: response.refresh_token ?? this.refreshToken,
+        id_token: response.id_token ?? this.idToken,
+        scope: response.scope ?? this.scope,
+      },
+      receivedAt,
+    );
+  }
+
+  /**
+   * トークンレスポンスの形式に変換する（セッションへの保存用）
+   * @param now 現在時刻（ミリ秒、テスト用）
+   * @returns トークンレスポンス
+   */
+  public toResponse(now = Date.now()): TokenResponse {
+    return {
+      access_token: this.accessToken,
+      token_type: this.tokenType,
+      refresh_token: this.refreshToken,
+      expires_in: this.expiresIn(now),
+      id_token: this.idToken,
+      scope: this.scope,
+    };
+  }
+}
+
+// リフレッシュトークンでトークンを更新できるクライアント（OpenIDConnectRP）
+export interface TokenRefresher {
+  refreshToken(
+    refreshToken: string,
+    options?: RefreshTokenOptions,
+  ): Promise<TokenResponse>;
+}
+
+export interface TokenSetManagerOptions {
+  // 有効期限の何秒前に更新するか（デフォルト: 60）
+  refreshLeeway?: number;
+  // 更新後に呼び出される（ローテーションされたリフレッシュトークンの保存などに使用する）
+  onRefresh?: (tokenSet: TokenSet) => void | Promise<void>;
+}
+
+/**
+ * 有効なアクセストークンを提供する
+ * 有効期限が近い場合はリフレッシュトークンで更新し、並行した更新要求は1回のリクエストにまとめる
+ */
+export class TokenSetManager {
+  private readonly client: TokenRefresher;
+  private current: TokenSet;
+  private pending?: Promise<TokenSet>;
+  private readonly refreshLeeway: number;
+  private readonly onRefresh?: TokenSetManagerOptions["onRefresh"];
+
+  /**
+   * コンストラクタ
+   * @param client トークンを更新するクライアント
+   * @param tokenSet 現在のトークンの集合
+   * @param options 更新の設定
+   */
+  constructor(
+    client: TokenRefresher,
+    tokenSet: TokenSet,
+    options: TokenSetManagerOptions = {},
+  ) {
+    this.client = client;
+    this.current = tokenSet;
+    this.refreshLeeway = options.refreshLeeway ?? 60;
+    this.onRefresh = options.onRefresh;
+  }
+
+  /**
+   * 現在のトークンの集合
+   */
+  public get tokenSet(): TokenSet {
+    return this.current;
+  }
+
+  /**
+   * 有効なアクセストークンを取得する
+   * @returns アクセストークン
+   * @throws OAuthError リフレッシュトークンが拒否された場合（再ログインが必要）
+   */
+  public async getAccessToken(): Promise<string> {
+    if (this.pending || this.current.expired(this.refreshLeeway)) {
+      return (await this.refresh()).accessToken;
+    }
+    return this.current.accessToken;
+  }
+
+  /**
+   * リフレッシュトークンでトークンを更新する
+   * 更新中に呼び出された場合は同じ更新の結果を返す
+   * @returns 更新後のトークンの集合
+   * @throws OpenIDConnectError リフレッシュトークンがない場合
+   * @throws ProtocolError 再発行されたIDトークンの検証に失敗した場合
+   */
+  public refresh(): Promise<TokenSet> {
+    this.pending ??= this.doRefresh().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  /**
+   * リフレッシュトークンでトークンを更新し、現在のトークンの集合を置き換える
+   * @returns 更新後のトークンの集合
+   */
+  private async doRefresh(): Promise<TokenSet> {
+    const refreshToken = this.current.refreshToken;
+    if (!refreshToken) {
+      throw new OpenIDConnectError(
+        "Access token has expired and no refresh token is available",
+      );
+    }
+
+    // 再発行されたIDトークンは更新前のIDトークンと照合して検証する
+    const response = await this.client.refreshToken(refreshToken, {
+      idToken: this.current.idToken,
+    });
+    const tokenSet = this.current.refreshed(response);
+    this.current = tokenSet;
+    await this.onRefresh?.(tokenSet);
+    return tokenSet;
+  }
+}
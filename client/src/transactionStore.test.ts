@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  type AuthorizationTransaction,
+  MemoryTransactionStore,
+  type SqliteDatabase,
+  SqliteTransactionStore,
+  type TransactionStore,
+} from "./transactionStore";
+
+// node:sqlite が利用できない環境ではSQLiteのテストをスキップする
+const sqlite = await import("node:sqlite").catch(() => undefined);
+
+describe.each([
+  {
+    name: "MemoryTransactionStore",
+    available: true,
+    createStore: (ttl?: number): TransactionStore =>
+      new MemoryTransactionStore({ ttl }),
+  },
+  {
+    name: "SqliteTransactionStore",
+    available: sqlite !== undefined,
+    createStore: (ttl?: number): TransactionStore =>
+      new SqliteTransactionStore(
+        new (sqlite as typeof import("node:sqlite")).DatabaseSync(
+          ":memory:",
+        ) as SqliteDatabase,
+        { ttl },
+      ),
+  },
+])("$name", ({ available, createStore }) => {
+  // テスト用のトランザクション
+  const createTransaction = (state: string): AuthorizationTransaction => ({
+    state,
+    nonce: `nonce-${state}`,
+    codeVerifier: `verifier-${state}`,
+    redirectTo: "/dashboard",
+    maxAge: 3600,
+    createdAt: Date.now(),
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.runIf(available)("保存したトランザクションを取り出す", async () => {
+    const store = createStore();
+    const transaction = createTransaction("state-1");
+    await store.save(transaction);
+    await store.save(createTransaction("state-2"));
+
+    expect(await store.consume("state-1")).toEqual(transaction);
+  });
+
+  it.runIf(available)("トランザクションは一度だけ取り出せる", async () => {
+    const store = createStore();
+    await store.save(createTransaction("state-1"));
+
+    expect(await store.consume("state-1")).toBeDefined();
+    expect(await store.consume("state-1")).toBeUndefined();
+  });
+
+  it.runIf(available)("存在しないstateの場合はundefinedを返す", async () => {
+    const store = createStore();
+
+    expect(await store.consume("unknown")).toBeUndefined();
+  });
+
+  it.runIf(available)(
+    "有効期限切れのトランザクションは取り出せない",
+    async () => {
+      const store = createStore(1000);
+      await store.save(createTransaction("state-1"));
+      await store.save(createTransaction("state-2"));
+
+      vi.advanceTimersByTime(999);
+      expect(await store.consume("state-1")).toBeDefined();
+
+      vi.advanceTimersByTime(1);
+      expect(await store.consume("state-2")).toBeUndefined();
+    },
+  );
+});
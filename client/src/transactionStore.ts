@@ -0,0 +1,155 @@
+/**
+ * 認証リクエスト（ログイントランザクション）の保存
+ */
+
+// 認証リクエストごとに生成されるトランザクション
+export interface AuthorizationTransaction {
+  type?: "login"; // 省略時は login
+  state: string;
+  nonce: string;
+  codeVerifier?: string;
+  redirectTo?: string; // ログイン完了後の遷移先
+  maxAge?: number;
+  provider?: string; // ProviderRegistry で発行した場合のプロバイダー名
+  createdAt: number; // 作成日時（ミリ秒）
+}
+
+// ログアウトリクエスト（RP-Initiated Logout）ごとに生成されるトランザクション
+export interface LogoutTransaction {
+  type: "logout";
+  state: string;
+  redirectTo?: string; // ログアウト完了後の遷移先
+  provider?: string; // ProviderRegistry で発行した場合のプロバイダー名
+  createdAt: number; // 作成日時（ミリ秒）
+}
+
+// ストアに保存するトランザクション
+export type Transaction = AuthorizationTransaction | LogoutTransaction;
+
+/**
+ * トランザクションの保存先
+ * consume は同じ state に対して一度だけトランザクションを返す
+ */
+export interface TransactionStore {
+  save(transaction: Transaction): Promise<void>;
+  consume(state: string): Promise<Transaction | undefined>;
+}
+
+export interface TransactionStoreOptions {
+  // トランザクションの有効期間（ミリ秒、デフォルト: 10分）
+  ttl?: number;
+}
+
+const DEFAULT_TTL = 10 * 60 * 1000;
+
+/**
+ * メモリ上にトランザクションを保存するストア
+ * 単一プロセスでの利用を想定しています
+ */
+export class MemoryTransactionStore implements TransactionStore {
+  private readonly ttl: number;
+  private readonly transactions = new Map<string, Transaction>();
+
+  /**
+   * コンストラクタ
+   * @param options ストアの設定
+   */
+  constructor(options: TransactionStoreOptions = {}) {
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+  }
+
+  public async save(transaction: Transaction): Promise<void> {
+    this.purgeExpired();
+    this.transactions.set(transaction.state, transaction);
+  }
+
+  public async consume(state: string): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(state);
+    this.transactions.delete(state);
+
+    if (!transaction || this.isExpired(transaction.createdAt)) {
+      return undefined;
+    }
+    return transaction;
+  }
+
+  /**
+   * 有効期限切れのトランザクションを削除する
+   */
+  private purgeExpired(): void {
+    for (const [state, transaction] of this.transactions) {
+      if (this.isExpired(transaction.createdAt)) {
+        this.transactions.delete(state);
+      }
+    }
+  }
+
+  private isExpired(createdAt: number): boolean {
+    return Date.now() - createdAt >= this.ttl;
+  }
+}
+
+// SQLite のデータベース（node:sqlite の DatabaseSync や better-sqlite3 と互換）
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    run(...params: (string | number | null)[]): unknown;
+    get(...params: (string | number | null)[]): unknown;
+  };
+}
+
+/**
+ * SQLite にトランザクションを保存するストア
+ * 複数プロセスで同じデータベースを共有できます
+ */
+export class SqliteTransactionStore implements TransactionStore {
+  private readonly db: SqliteDatabase;
+  private readonly ttl: number;
+
+  /**
+   * コンストラクタ
+   * @param db SQLite のデータベース
+   * @param options ストアの設定
+   */
+  constructor(db: SqliteDatabase, options: TransactionStoreOptions = {}) {
+    this.db = db;
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS oidc_transactions (
+        state TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  public async save(transaction: Transaction): Promise<void> {
+    this.db
+      .prepare("DELETE FROM oidc_transactions WHERE created_at <= ?")
+      .run(Date.now() - this.ttl);
+    this.db
+      .prepare(
+        "INSERT OR REPLACE INTO oidc_transactions (state, data, created_at) VALUES (?, ?, ?)",
+      )
+      .run(
+        transaction.state,
+        JSON.stringify(transaction),
+        transaction.createdAt,
+      );
+  }
+
+  public async consume(state: string): Promise<Transaction | undefined> {
+    // 削除と取得を一つの文で行い、同じ state が二度使われないようにする
+    const row = this.db
+      .prepare(
+        "DELETE FROM oidc_transactions WHERE state = ? RETURNING data, created_at",
+      )
+      .get(state) as { data: string; created_at: number } | undefined;
+
+    if (!row || Date.now() - row.created_at >= this.ttl) {
+      return undefined;
+    }
+    return JSON.parse(row.data) as Transaction;
+  }
+}